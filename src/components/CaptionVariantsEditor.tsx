@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { useFormContext } from 'react-hook-form';
+import { Layers } from 'lucide-react';
+
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PlatformIcon } from '@/components/PlatformIcon';
+import { HashtagInput } from '@/components/HashtagInput';
+import { CaptionVariants, isOverridden } from '@/lib/caption-variants';
+import { PlatformDefinition } from '@/lib/platforms';
+
+const BASE_TAB = 'base';
+
+interface CaptionFormValues {
+  caption: string;
+  hashtags?: string;
+  variants: CaptionVariants;
+}
+
+interface CaptionVariantsEditorProps {
+  platforms: PlatformDefinition[];
+  // The base caption and hashtag fields, shown on the shared tab
+  children: React.ReactNode;
+}
+
+export function CaptionVariantsEditor({ platforms, children }: CaptionVariantsEditorProps) {
+  const form = useFormContext<CaptionFormValues>();
+  const variants = form.watch('variants');
+  const [activeTab, setActiveTab] = useState(BASE_TAB);
+  const currentTab = activeTab === BASE_TAB || platforms.some(({ id }) => id === activeTab) ? activeTab : BASE_TAB;
+
+  const toggleOverride = (platformId: string, override: boolean) => {
+    const existing = variants[platformId];
+    // Seed a new override from the base copy so editing starts from what would have been posted
+    const seed = existing?.caption || existing?.hashtags
+      ? existing
+      : { caption: form.getValues('caption'), hashtags: form.getValues('hashtags') || '' };
+    form.setValue(`variants.${platformId}`, { ...seed, override }, {
+      shouldDirty: true,
+      shouldValidate: form.formState.isSubmitted,
+    });
+  };
+
+  return (
+    <Tabs value={currentTab} onValueChange={setActiveTab} className="space-y-6">
+      {platforms.length > 0 && (
+        <TabsList className="w-full h-auto flex-wrap justify-start gap-1">
+          <TabsTrigger value={BASE_TAB} className="gap-2">
+            <Layers className="h-4 w-4" />
+            All platforms
+          </TabsTrigger>
+          {platforms.map((platform) => {
+            const diverges = isOverridden(variants, platform.id);
+            return (
+              <TabsTrigger key={platform.id} value={platform.id} className="gap-2 relative">
+                <PlatformIcon platform={platform} className="h-4 w-4" />
+                {platform.label}
+                {diverges && (
+                  <span className="h-2 w-2 rounded-full bg-primary" aria-label="Customized caption" />
+                )}
+              </TabsTrigger>
+            );
+          })}
+        </TabsList>
+      )}
+
+      <TabsContent value={BASE_TAB} className="space-y-8 mt-0">
+        {children}
+      </TabsContent>
+
+      {platforms.map((platform) => {
+        const override = isOverridden(variants, platform.id);
+        return (
+          <TabsContent key={platform.id} value={platform.id} className="space-y-6 mt-0">
+            <div className="flex items-center justify-between rounded-xl border border-border/50 bg-background/30 p-4">
+              <div>
+                <p className="text-base font-medium text-foreground">Customize for {platform.label}</p>
+                <p className="text-sm text-muted-foreground">
+                  {override ? 'This platform gets its own caption and hashtags.' : 'Uses the shared caption and hashtags.'}
+                </p>
+              </div>
+              <Switch
+                checked={override}
+                onCheckedChange={(checked) => toggleOverride(platform.id, checked)}
+                aria-label={`Customize caption for ${platform.label}`}
+              />
+            </div>
+
+            {override ? (
+              <>
+                <FormField
+                  control={form.control}
+                  name={`variants.${platform.id}.caption`}
+                  render={({ field }) => (
+                    <FormItem className="space-y-3">
+                      <FormLabel className="text-lg font-semibold text-foreground">
+                        {platform.label} Caption
+                      </FormLabel>
+                      <FormControl>
+                        <Textarea
+                          className="min-h-40 text-base bg-background/50 border-border/50 focus:border-primary/50 transition-all duration-300 resize-none"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription className="text-base">
+                        {field.value?.length || 0} characters
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`variants.${platform.id}.hashtags`}
+                  render={({ field }) => (
+                    <FormItem className="space-y-3">
+                      <FormLabel className="text-lg font-semibold text-foreground">
+                        {platform.label} Hashtags
+                      </FormLabel>
+                      <FormControl>
+                        <HashtagInput {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            ) : (
+              <div className="rounded-xl border border-dashed border-border/50 p-4 text-sm text-muted-foreground whitespace-pre-wrap">
+                {form.watch('caption') || 'No caption yet.'}
+                {form.watch('hashtags') && <p className="mt-3 text-primary">{form.watch('hashtags')}</p>}
+              </div>
+            )}
+          </TabsContent>
+        );
+      })}
+    </Tabs>
+  );
+}
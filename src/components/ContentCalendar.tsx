@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format, isSameMonth, isToday } from 'date-fns';
+import { ArrowLeft, CalendarDays, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { PlatformIcon } from '@/components/PlatformIcon';
+import { cn } from '@/lib/utils';
+import { DEFAULT_HOUR, isInFuture } from '@/lib/schedule';
+import { getPlatform, platformStyle } from '@/lib/platforms';
+import { formatWallClock } from '@/lib/timezones';
+import { PostRecord, listPosts, reschedulePost } from '@/lib/posts';
+import { loadWebhookProfiles } from '@/lib/webhook-profiles';
+import {
+  CalendarView,
+  HOURS,
+  dayKey,
+  getMonthDays,
+  getPeriodLabel,
+  getWeekDays,
+  groupPostsByDay,
+  moveToSlot,
+  shiftPeriod,
+} from '@/lib/calendar';
+import { useToast } from '@/hooks/use-toast';
+
+// Custom drag type so only calendar posts can be dropped on a slot
+const POST_DRAG_TYPE = 'application/x-calendar-post';
+const MONTH_VISIBLE_POSTS = 3;
+
+interface SlotTarget {
+  day: Date;
+  hour?: number;
+}
+
+function PostChip({ post, pending, compact, onDragStart }: {
+  post: PostRecord;
+  pending: boolean;
+  compact?: boolean;
+  onDragStart: (e: React.DragEvent<HTMLDivElement>) => void;
+}) {
+  const platforms = post.platforms.map(getPlatform).filter(Boolean);
+  const primary = platforms[0];
+  // A series would only move its first occurrence, so recurring posts stay where they are
+  const movable = !pending && !post.recurrenceRule;
+  return (
+    <div
+      draggable={movable}
+      onDragStart={onDragStart}
+      onClick={(e) => e.stopPropagation()}
+      className={cn(
+        "flex items-center gap-1 rounded-md px-1.5 py-0.5 text-xs font-medium shadow-sm",
+        movable && "cursor-grab active:cursor-grabbing",
+        primary ? "bg-platform text-platform-foreground" : "bg-muted text-foreground",
+        pending && "opacity-60 cursor-wait"
+      )}
+      style={primary ? platformStyle(primary) : undefined}
+      title={`${post.title} · ${format(new Date(post.scheduledAt), 'p')} · ${platforms.map((platform) => platform.label).join(', ')}${post.recurrenceRule ? ' · Repeats, so it cannot be dragged' : ''}`}
+    >
+      {pending && <Loader2 className="h-3 w-3 shrink-0 animate-spin" />}
+      <span className="shrink-0 tabular-nums">{format(new Date(post.scheduledAt), compact ? 'HH:mm' : 'p')}</span>
+      <span className="truncate">{post.title}</span>
+      {platforms.length > 1 && (
+        <span className="ml-auto flex shrink-0 gap-0.5 rounded bg-background/90 px-0.5">
+          {platforms.map((platform) => (
+            <PlatformIcon key={platform.id} platform={platform} className="h-3 w-3" />
+          ))}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default function ContentCalendar() {
+  const [posts, setPosts] = useState<PostRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [overSlot, setOverSlot] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    listPosts()
+      .then(setPosts)
+      .catch((error) => console.error('Could not load scheduled posts:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Only delivered posts are actually scheduled; failed attempts stay on the history page
+  const postsByDay = groupPostsByDay(posts.filter((post) => post.status === 'success'));
+  const days = view === 'month' ? getMonthDays(cursor) : getWeekDays(cursor);
+
+  const slotKey = ({ day, hour }: SlotTarget) => `${dayKey(day)}-${hour ?? 'day'}`;
+
+  const openComposer = ({ day, hour }: SlotTarget) => {
+    const slot = moveToSlot(new Date(day.getFullYear(), day.getMonth(), day.getDate(), DEFAULT_HOUR), day, hour);
+    navigate(`/?scheduledAt=${encodeURIComponent(formatWallClock(slot))}`);
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, post: PostRecord) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData(POST_DRAG_TYPE, post.id);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, target: SlotTarget) => {
+    if (!e.dataTransfer.types.includes(POST_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setOverSlot(slotKey(target));
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>, target: SlotTarget) => {
+    if (!e.dataTransfer.types.includes(POST_DRAG_TYPE)) return;
+    e.preventDefault();
+    setOverSlot(null);
+    const post = posts.find((item) => item.id === e.dataTransfer.getData(POST_DRAG_TYPE));
+    if (!post) return;
+
+    const scheduledAt = moveToSlot(new Date(post.scheduledAt), target.day, target.hour);
+    if (scheduledAt.getTime() === new Date(post.scheduledAt).getTime()) return;
+    if (!isInFuture(scheduledAt)) {
+      toast({
+        title: 'Pick a time in the future',
+        description: 'Posts can only be moved to a slot that has not passed yet.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setPendingId(post.id);
+    try {
+      const webhook = loadWebhookProfiles().find(({ id }) => id === post.webhookProfileId);
+      const updated = await reschedulePost(post, scheduledAt, webhook);
+      setPosts((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      toast({
+        title: 'Post rescheduled',
+        description: `"${post.title}" now goes out ${format(scheduledAt, 'PPp')}.`,
+      });
+    } catch (error) {
+      console.error('Reschedule error:', error);
+      toast({
+        title: 'Could not reschedule',
+        description: `${error instanceof Error ? error.message : 'The webhook did not accept the update'}. The post keeps its original time.`,
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const slotProps = (target: SlotTarget) => ({
+    onDragOver: (e: React.DragEvent<HTMLDivElement>) => handleDragOver(e, target),
+    onDragLeave: () => setOverSlot((current) => (current === slotKey(target) ? null : current)),
+    onDrop: (e: React.DragEvent<HTMLDivElement>) => handleDrop(e, target),
+    onClick: () => openComposer(target),
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="max-w-7xl mx-auto p-6 pt-12 space-y-8">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-3 text-4xl font-display font-bold text-foreground">
+              <CalendarDays className="h-8 w-8 text-primary" />
+              Content Calendar
+            </h1>
+            <p className="mt-2 text-muted-foreground">
+              Drag a post to reschedule it, or click an empty slot to plan a new one.
+            </p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to composer
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="backdrop-blur-xl bg-card/80 border-0 shadow-2xl shadow-primary/5">
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+            <div className="flex items-center gap-2">
+              <Button type="button" variant="outline" size="icon" onClick={() => setCursor((date) => shiftPeriod(date, view, -1))} aria-label={`Previous ${view}`}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="outline" size="icon" onClick={() => setCursor((date) => shiftPeriod(date, view, 1))} aria-label={`Next ${view}`}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setCursor(new Date())}>
+                Today
+              </Button>
+              <h2 className="ml-2 text-xl font-semibold" aria-live="polite">{getPeriodLabel(cursor, view)}</h2>
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={view}
+              onValueChange={(value) => value && setView(value as CalendarView)}
+            >
+              <ToggleGroupItem value="month" className="px-4">Month</ToggleGroupItem>
+              <ToggleGroupItem value="week" className="px-4">Week</ToggleGroupItem>
+            </ToggleGroup>
+          </CardHeader>
+          <CardContent>
+            {view === 'month' ? (
+              <div className="grid grid-cols-7 overflow-hidden rounded-xl border border-border/50">
+                {days.slice(0, 7).map((day) => (
+                  <div key={day.toISOString()} className="border-b border-border/50 bg-muted/30 px-2 py-1.5 text-xs font-medium text-muted-foreground">
+                    {format(day, 'EEE')}
+                  </div>
+                ))}
+                {days.map((day) => {
+                  const dayPosts = postsByDay.get(dayKey(day)) ?? [];
+                  const target = { day };
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      {...slotProps(target)}
+                      className={cn(
+                        "min-h-28 space-y-1 border-b border-r border-border/50 p-1.5 cursor-pointer transition-colors hover:bg-primary/5 [&:nth-child(7n)]:border-r-0",
+                        !isSameMonth(day, cursor) && "bg-muted/20 text-muted-foreground",
+                        overSlot === slotKey(target) && "bg-primary/10 ring-2 ring-inset ring-primary"
+                      )}
+                    >
+                      <span className={cn(
+                        "inline-flex h-6 w-6 items-center justify-center rounded-full text-xs",
+                        isToday(day) && "bg-primary text-primary-foreground font-semibold"
+                      )}>
+                        {format(day, 'd')}
+                      </span>
+                      {dayPosts.slice(0, MONTH_VISIBLE_POSTS).map((post) => (
+                        <PostChip
+                          key={post.id}
+                          post={post}
+                          pending={pendingId === post.id}
+                          compact
+                          onDragStart={(e) => handleDragStart(e, post)}
+                        />
+                      ))}
+                      {dayPosts.length > MONTH_VISIBLE_POSTS && (
+                        <button
+                          type="button"
+                          className="text-xs font-medium text-muted-foreground hover:text-foreground"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setCursor(day);
+                            setView('week');
+                          }}
+                        >
+                          +{dayPosts.length - MONTH_VISIBLE_POSTS} more
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="max-h-[70vh] overflow-auto rounded-xl border border-border/50">
+                <div className="grid min-w-[48rem] grid-cols-[4rem_repeat(7,minmax(0,1fr))]">
+                  <div className="sticky top-0 z-10 border-b border-border/50 bg-card" />
+                  {days.map((day) => (
+                    <div
+                      key={day.toISOString()}
+                      className={cn(
+                        "sticky top-0 z-10 border-b border-l border-border/50 bg-card px-2 py-1.5 text-xs font-medium",
+                        isToday(day) ? "text-primary" : "text-muted-foreground"
+                      )}
+                    >
+                      {format(day, 'EEE d')}
+                    </div>
+                  ))}
+                  {HOURS.map((hour) => (
+                    <React.Fragment key={hour}>
+                      <div className="border-b border-border/50 px-2 py-1 text-right text-xs text-muted-foreground">
+                        {format(new Date(2000, 0, 1, hour), 'p')}
+                      </div>
+                      {days.map((day) => {
+                        const target = { day, hour };
+                        const slotPosts = (postsByDay.get(dayKey(day)) ?? [])
+                          .filter((post) => new Date(post.scheduledAt).getHours() === hour);
+                        return (
+                          <div
+                            key={`${day.toISOString()}-${hour}`}
+                            {...slotProps(target)}
+                            className={cn(
+                              "min-h-12 space-y-1 border-b border-l border-border/50 p-1 cursor-pointer transition-colors hover:bg-primary/5",
+                              overSlot === slotKey(target) && "bg-primary/10 ring-2 ring-inset ring-primary"
+                            )}
+                          >
+                            {slotPosts.map((post) => (
+                              <PostChip
+                                key={post.id}
+                                post={post}
+                                pending={pendingId === post.id}
+                                onDragStart={(e) => handleDragStart(e, post)}
+                              />
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
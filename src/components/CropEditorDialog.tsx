@@ -0,0 +1,259 @@
+import React, { useRef, useState } from 'react';
+import { Crop } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Slider } from '@/components/ui/slider';
+import { MediaItem } from '@/lib/media';
+import {
+  ASPECT_RATIOS,
+  AspectRatioId,
+  CropSettings,
+  MAX_CROP_ZOOM,
+  PlatformCrops,
+  SAFE_ZONES,
+  createCrop,
+  getCropCenter,
+  moveCrop,
+} from '@/lib/image-crop';
+import { PlatformDefinition } from '@/lib/platforms';
+
+type CropPlatform = Pick<PlatformDefinition, 'id' | 'label' | 'defaultAspect'>;
+
+interface CropEditorDialogProps {
+  item: MediaItem | null;
+  platforms: CropPlatform[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (id: string, crops: PlatformCrops) => void;
+}
+
+const KEYBOARD_NUDGE = 0.01;
+
+interface CropAreaProps {
+  src: string;
+  crop?: CropSettings;
+  onImageAspect: (aspect: number) => void;
+  onChange: (crop: CropSettings) => void;
+}
+
+function CropArea({ src, crop, onImageAspect, onChange }: CropAreaProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; crop: CropSettings } | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    const container = containerRef.current;
+    if (!start || !container) return;
+    const { width, height } = container.getBoundingClientRect();
+    onChange(moveCrop(start.crop, (e.clientX - start.pointerX) / width, (e.clientY - start.pointerY) / height));
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_NUDGE, 0],
+      ArrowRight: [KEYBOARD_NUDGE, 0],
+      ArrowUp: [0, -KEYBOARD_NUDGE],
+      ArrowDown: [0, KEYBOARD_NUDGE],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    onChange(moveCrop(crop, move[0], move[1]));
+  };
+
+  const safeZone = crop ? SAFE_ZONES[crop.aspect] : undefined;
+
+  return (
+    <div ref={containerRef} className="relative mx-auto w-fit max-w-full overflow-hidden rounded-lg bg-muted select-none">
+      <img
+        src={src}
+        alt="Crop source"
+        draggable={false}
+        onLoad={(e) => onImageAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+        className="block max-h-[50vh] max-w-full"
+      />
+      {crop && safeZone && (
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Crop position, use arrow keys to move"
+          aria-valuetext={`${Math.round(crop.x * 100)}% from left, ${Math.round(crop.y * 100)}% from top`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown}
+          className="absolute cursor-move border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] focus-visible:outline-none focus-visible:border-primary touch-none"
+          style={{
+            left: `${crop.x * 100}%`,
+            top: `${crop.y * 100}%`,
+            width: `${crop.width * 100}%`,
+            height: `${crop.height * 100}%`,
+          }}
+        >
+          <div
+            className="absolute border border-dashed border-white/70 pointer-events-none"
+            style={{
+              top: `${safeZone.top * 100}%`,
+              right: `${safeZone.right * 100}%`,
+              bottom: `${safeZone.bottom * 100}%`,
+              left: `${safeZone.left * 100}%`,
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CropEditor({ item, platforms, onSave, onCancel }: {
+  item: MediaItem;
+  platforms: CropPlatform[];
+  onSave: (crops: PlatformCrops) => void;
+  onCancel: () => void;
+}) {
+  const [imageAspect, setImageAspect] = useState<number>();
+  const [crops, setCrops] = useState<PlatformCrops>(item.crops);
+  const [activePlatform, setActivePlatform] = useState(platforms[0]?.id);
+
+  const handleImageAspect = (aspect: number) => {
+    setImageAspect(aspect);
+    setCrops((prev) => {
+      const next = { ...prev };
+      platforms.forEach(({ id, defaultAspect }) => {
+        next[id] = next[id] ?? createCrop(aspect, defaultAspect);
+      });
+      return next;
+    });
+  };
+
+  const updateCrop = (platformId: string, crop: CropSettings) => {
+    setCrops((prev) => ({ ...prev, [platformId]: crop }));
+  };
+
+  const changeAspect = (platformId: string, aspect: AspectRatioId) => {
+    const current = crops[platformId];
+    if (!imageAspect || !current) return;
+    updateCrop(platformId, createCrop(imageAspect, aspect, current.zoom, getCropCenter(current)));
+  };
+
+  const changeZoom = (platformId: string, zoom: number) => {
+    const current = crops[platformId];
+    if (!imageAspect || !current) return;
+    updateCrop(platformId, createCrop(imageAspect, current.aspect, zoom, getCropCenter(current)));
+  };
+
+  const handleSave = () => {
+    // Only keep crops for platforms that are still selected
+    const selected = Object.fromEntries(platforms.filter(({ id }) => crops[id]).map(({ id }) => [id, crops[id]]));
+    onSave(selected);
+  };
+
+  return (
+    <>
+      <Tabs value={activePlatform} onValueChange={setActivePlatform}>
+        <TabsList className="w-full">
+          {platforms.map((platform) => (
+            <TabsTrigger key={platform.id} value={platform.id} className="flex-1">
+              {platform.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {platforms.map((platform) => {
+          const crop = crops[platform.id];
+          return (
+            <TabsContent key={platform.id} value={platform.id} className="space-y-4">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={crop?.aspect}
+                onValueChange={(aspect) => aspect && changeAspect(platform.id, aspect as AspectRatioId)}
+                className="flex-wrap"
+              >
+                {ASPECT_RATIOS.map((preset) => (
+                  <ToggleGroupItem key={preset.id} value={preset.id} className="px-3">
+                    {preset.label} {preset.id}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <CropArea
+                src={item.previewUrl}
+                crop={crop}
+                onImageAspect={handleImageAspect}
+                onChange={(next) => updateCrop(platform.id, next)}
+              />
+              <div className="flex items-center gap-4">
+                <span className="text-sm text-muted-foreground w-12">Zoom</span>
+                <Slider
+                  min={1}
+                  max={MAX_CROP_ZOOM}
+                  step={0.05}
+                  value={[crop?.zoom ?? 1]}
+                  onValueChange={([zoom]) => changeZoom(platform.id, zoom)}
+                  disabled={!crop}
+                  aria-label="Zoom"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Drag the frame or use arrow keys to position it. The dashed line marks the safe zone that
+                platform overlays leave uncovered.
+              </p>
+            </TabsContent>
+          );
+        })}
+      </Tabs>
+      <DialogFooter className="gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={!imageAspect}>
+          Save crops
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export function CropEditorDialog({ item, platforms, onOpenChange, onSave }: CropEditorDialogProps) {
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl bg-card/95 backdrop-blur-xl border-primary/20">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl font-semibold">
+            <Crop className="h-6 w-6 text-primary" />
+            Crop for each platform
+          </DialogTitle>
+          <DialogDescription className="text-base text-muted-foreground">
+            Each selected platform gets its own cropped copy of this image.
+          </DialogDescription>
+        </DialogHeader>
+        {item && (
+          <CropEditor
+            key={item.id}
+            item={item}
+            platforms={platforms}
+            onCancel={() => onOpenChange(false)}
+            onSave={(crops) => {
+              onSave(item.id, crops);
+              onOpenChange(false);
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { format, startOfDay } from 'date-fns';
+import { CalendarIcon, Clock } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_HOUR,
+  MINUTE_STEPS,
+  MinuteStep,
+  combineDateAndTime,
+  getHourOptions,
+  getMinuteOptions,
+  snapMinutes,
+  to12Hour,
+  to24Hour,
+  uses12HourClock,
+} from '@/lib/schedule';
+import { getBrowserTimeZone, utcToZonedWallTime } from '@/lib/timezones';
+
+interface DateTimePickerProps extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, 'value' | 'onChange'> {
+  value?: Date;
+  onChange: (value: Date) => void;
+  defaultMinuteStep?: MinuteStep;
+  // Zone the value is a wall-clock time in, so past days are judged by that zone's date
+  timeZone?: string;
+}
+
+const DateTimePicker = React.forwardRef<HTMLButtonElement, DateTimePickerProps>(
+  ({ value, onChange, defaultMinuteStep = 15, timeZone = getBrowserTimeZone(), className, ...props }, ref) => {
+    const [minuteStep, setMinuteStep] = useState<MinuteStep>(defaultMinuteStep);
+    const twelveHour = useMemo(() => uses12HourClock(), []);
+
+    const hours = value ? value.getHours() : DEFAULT_HOUR;
+    const minutes = value ? snapMinutes(value.getMinutes(), minuteStep) : 0;
+    const { hour: displayHour, meridiem } = to12Hour(hours);
+
+    const updateTime = (nextHours: number, nextMinutes: number) => {
+      onChange(combineDateAndTime(value ?? new Date(), nextHours, nextMinutes));
+    };
+
+    const handleDaySelect = (day: Date | undefined) => {
+      if (!day) return;
+      onChange(combineDateAndTime(day, hours, minutes));
+    };
+
+    const handleHourChange = (hour: string) => {
+      const parsed = Number(hour);
+      updateTime(twelveHour ? to24Hour(parsed, meridiem) : parsed, minutes);
+    };
+
+    const handleMeridiemChange = (next: string) => {
+      updateTime(to24Hour(displayHour, next as 'AM' | 'PM'), minutes);
+    };
+
+    const handleStepChange = (next: string) => {
+      if (!next) return;
+      const step = Number(next) as MinuteStep;
+      setMinuteStep(step);
+      if (value) {
+        updateTime(hours, snapMinutes(value.getMinutes(), step));
+      }
+    };
+
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            type="button"
+            variant="outline"
+            className={cn(
+              "w-full h-14 pl-4 text-left font-normal bg-background/50 border-border/50 hover:border-primary/50 transition-all duration-300",
+              !value && "text-muted-foreground",
+              className
+            )}
+            {...props}
+          >
+            {value ? (
+              <div className="flex items-center gap-3">
+                <CalendarIcon className="h-5 w-5 text-primary" />
+                <span className="text-base">{format(value, "PPP 'at' p")}</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3">
+                <CalendarIcon className="h-5 w-5 text-muted-foreground" />
+                <span>Select date and time</span>
+              </div>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0 bg-card/95 backdrop-blur-xl border-primary/20" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={handleDaySelect}
+            disabled={(date) => date < startOfDay(utcToZonedWallTime(new Date(), timeZone))}
+            initialFocus
+            className="p-4 pointer-events-auto"
+          />
+          <div className="border-t border-border/50 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-sm font-medium text-foreground">
+                <Clock className="h-4 w-4 text-primary" />
+                Time
+              </span>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={String(minuteStep)}
+                onValueChange={handleStepChange}
+                aria-label="Minute step"
+              >
+                {MINUTE_STEPS.map((step) => (
+                  <ToggleGroupItem key={step} value={String(step)} className="h-7 px-2 text-xs">
+                    {step} min
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={String(twelveHour ? displayHour : hours)} onValueChange={handleHourChange}>
+                <SelectTrigger className="w-20" aria-label="Hour">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getHourOptions(twelveHour).map((hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {twelveHour ? hour : String(hour).padStart(2, '0')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">:</span>
+              <Select value={String(minutes)} onValueChange={(minute) => updateTime(hours, Number(minute))}>
+                <SelectTrigger className="w-20" aria-label="Minute">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getMinuteOptions(minuteStep).map((minute) => (
+                    <SelectItem key={minute} value={String(minute)}>
+                      {String(minute).padStart(2, '0')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {twelveHour && (
+                <Select value={meridiem} onValueChange={handleMeridiemChange}>
+                  <SelectTrigger className="w-20" aria-label="AM or PM">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="AM">AM</SelectItem>
+                    <SelectItem value="PM">PM</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+);
+DateTimePicker.displayName = 'DateTimePicker';
+
+export { DateTimePicker };
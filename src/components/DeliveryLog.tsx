@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Download, ScrollText, Search, Trash2, X } from 'lucide-react';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ResponseBodyPopover } from '@/components/ResponseBodyPopover';
+import { TablePagination } from '@/components/TablePagination';
+import { cn } from '@/lib/utils';
+import { getPageCount, paginate } from '@/lib/pagination';
+import { describeWebhookUrl } from '@/lib/webhook-profiles';
+import {
+  DEFAULT_LOG_FILTERS,
+  DELIVERY_ERROR_LABELS,
+  DELIVERY_KIND_LABELS,
+  DeliveryKind,
+  DeliveryLogEntry,
+  DeliveryLogFilters,
+  clearDeliveryLog,
+  exportDeliveryLog,
+  filterDeliveryLog,
+  listDeliveryLog,
+} from '@/lib/delivery-log';
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking in the same tick can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+export default function DeliveryLog() {
+  const [entries, setEntries] = useState<DeliveryLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<DeliveryLogFilters>(DEFAULT_LOG_FILTERS);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    listDeliveryLog()
+      .then(setEntries)
+      .catch((error) => {
+        console.error('Could not load the delivery log:', error);
+        setLoadError('The delivery log could not be loaded from this browser.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visibleEntries = filterDeliveryLog(entries, filters);
+  const pageCount = getPageCount(visibleEntries.length);
+  const currentPage = Math.min(page, pageCount);
+  const pageEntries = paginate(visibleEntries, currentPage);
+
+  const updateFilters = (changes: Partial<DeliveryLogFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters(DEFAULT_LOG_FILTERS);
+    setPage(1);
+  };
+
+  // Exports what is on screen, so filtering first narrows the file down
+  const handleExport = () => {
+    downloadBlob(exportDeliveryLog(visibleEntries), `delivery-log-${format(new Date(), 'yyyyMMdd-HHmm')}.json`);
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearDeliveryLog();
+      setEntries([]);
+      setPage(1);
+    } catch (error) {
+      console.error('Could not clear the delivery log:', error);
+    }
+  };
+
+  const isFiltered = filters.kind !== 'all' || filters.outcome !== 'all' || filters.query.trim() !== '';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="max-w-7xl mx-auto p-6 pt-12 space-y-8">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-3 text-4xl font-display font-bold text-foreground">
+              <ScrollText className="h-8 w-8 text-primary" />
+              Delivery Log
+            </h1>
+            <p className="mt-2 text-muted-foreground">Every webhook and AI request sent from this browser, newest first.</p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to composer
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="backdrop-blur-xl bg-card/80 border-0 shadow-2xl shadow-primary/5">
+          <CardHeader className="space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-xl">Requests</CardTitle>
+                <CardDescription>
+                  {isLoading
+                    ? 'Loading…'
+                    : `${visibleEntries.length} of ${entries.length} ${entries.length === 1 ? 'request' : 'requests'}`}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" className="gap-2" disabled={visibleEntries.length === 0} onClick={handleExport}>
+                  <Download className="h-4 w-4" />
+                  Export JSON
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" variant="ghost" className="gap-2 text-destructive hover:text-destructive" disabled={entries.length === 0}>
+                      <Trash2 className="h-4 w-4" />
+                      Clear log
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Clear the delivery log?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        All {entries.length} entries are deleted from this browser. Export them first if you still need them.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleClear}>Clear log</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={filters.kind} onValueChange={(kind) => updateFilters({ kind: kind as DeliveryLogFilters['kind'] })}>
+                <SelectTrigger className="w-44" aria-label="Filter by request type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All requests</SelectItem>
+                  {(Object.keys(DELIVERY_KIND_LABELS) as DeliveryKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>{DELIVERY_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.outcome}
+                onValueChange={(outcome) => updateFilters({ outcome: outcome as DeliveryLogFilters['outcome'] })}
+              >
+                <SelectTrigger className="w-36" aria-label="Filter by outcome">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any outcome</SelectItem>
+                  <SelectItem value="ok">Succeeded</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="relative w-64">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={filters.query}
+                  onChange={(e) => updateFilters({ query: e.target.value })}
+                  placeholder="Search URL, subject or response"
+                  className="pl-9"
+                  aria-label="Search the delivery log"
+                />
+              </div>
+              {isFiltered && (
+                <Button type="button" variant="ghost" className="gap-1" onClick={clearFilters}>
+                  <X className="h-4 w-4" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Payload</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead>Response</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pageEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {format(entry.startedAt, 'PP p:ss')}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{DELIVERY_KIND_LABELS[entry.kind]}</TableCell>
+                    <TableCell className="max-w-[12rem]">
+                      <p className="truncate text-xs font-mono" title={entry.url}>
+                        {entry.method} {describeWebhookUrl(entry.url)}
+                      </p>
+                    </TableCell>
+                    <TableCell className="max-w-[16rem]">
+                      {entry.subject && <p className="truncate font-medium">{entry.subject}</p>}
+                      <p className="truncate text-xs text-muted-foreground" title={entry.payloadSummary}>{entry.payloadSummary}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "whitespace-nowrap",
+                          entry.ok
+                            ? "bg-emerald-500/10 text-emerald-700 border-emerald-500/20 dark:text-emerald-400"
+                            : "bg-destructive/10 text-destructive border-destructive/20"
+                        )}
+                      >
+                        {entry.httpStatus ?? 'No response'}
+                      </Badge>
+                      {entry.errorClass && (
+                        <p className="mt-1 text-xs text-muted-foreground" title={entry.errorMessage}>
+                          {DELIVERY_ERROR_LABELS[entry.errorClass]}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-right tabular-nums">{entry.durationMs} ms</TableCell>
+                    <TableCell>
+                      <ResponseBodyPopover body={entry.responseExcerpt || entry.errorMessage || ''} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!isLoading && pageEntries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                      {loadError ?? (entries.length === 0 ? 'No requests have been sent yet.' : 'No requests match these filters.')}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            <TablePagination page={currentPage} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Draft, getDraftName } from '@/lib/drafts';
+
+interface DraftRestoreBannerProps {
+  draft: Draft<{ postTitle?: string }> | null;
+  onRestore: () => void;
+  onDismiss: () => void;
+}
+
+export function DraftRestoreBanner({ draft, onRestore, onDismiss }: DraftRestoreBannerProps) {
+  if (!draft) return null;
+
+  return (
+    <Alert className="mb-8 bg-primary/5 border-primary/20 animate-fade-in">
+      <History className="h-4 w-4 text-primary" />
+      <AlertTitle>Restore draft from {format(draft.updatedAt, 'PPp')}?</AlertTitle>
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-muted-foreground">
+          "{getDraftName(draft)}"
+          {draft.media.length > 0 && ` with ${draft.media.length} media ${draft.media.length === 1 ? 'file' : 'files'}`}
+          {' '}was not posted.
+        </span>
+        <span className="flex gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={onDismiss}>
+            Dismiss
+          </Button>
+          <Button type="button" size="sm" onClick={onRestore}>
+            Restore
+          </Button>
+        </span>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, FilePlus2, FileText, Image, Pencil, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { cn } from '@/lib/utils';
+import { Draft, getDraftName } from '@/lib/drafts';
+
+type DraftSummary = Draft<{ postTitle?: string }>;
+
+interface DraftsDrawerProps<D extends DraftSummary> {
+  drafts: D[];
+  activeDraftId: string;
+  onOpen: (draft: D) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}
+
+function DraftRow({ draft, active, onOpen, onRename, onDelete }: {
+  draft: DraftSummary;
+  active: boolean;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+
+  const startEditing = () => {
+    setName(getDraftName(draft));
+    setEditing(true);
+  };
+
+  const submitName = (e: React.FormEvent) => {
+    e.preventDefault();
+    onRename(name);
+    setEditing(false);
+  };
+
+  return (
+    <li className={cn("rounded-xl border p-3 space-y-2", active ? "border-primary/40 bg-primary/5" : "border-border/50")}>
+      {editing ? (
+        <form onSubmit={submitName} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setEditing(false)}
+            className="h-8"
+            aria-label="Draft name"
+            autoFocus
+          />
+          <Button type="submit" size="icon" className="h-8 w-8 shrink-0" aria-label="Save name">
+            <Check className="h-4 w-4" />
+          </Button>
+        </form>
+      ) : (
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{getDraftName(draft)}</p>
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              Edited {formatDistanceToNow(draft.updatedAt, { addSuffix: true })}
+              {draft.media.length > 0 && (
+                <span className="flex items-center gap-1">
+                  <Image className="h-3 w-3" />
+                  {draft.media.length}
+                </span>
+              )}
+            </p>
+          </div>
+          {active && <span className="shrink-0 text-xs font-medium text-primary">Editing</span>}
+        </div>
+      )}
+      <div className="flex gap-1">
+        <Button type="button" size="sm" variant="secondary" onClick={onOpen} disabled={active}>
+          Open
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={startEditing} disabled={editing}>
+          <Pencil className="h-3.5 w-3.5 mr-1" />
+          Rename
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="ml-auto text-destructive hover:text-destructive"
+          onClick={onDelete}
+          aria-label={`Delete ${getDraftName(draft)}`}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+export function DraftsDrawer<D extends DraftSummary>({ drafts, activeDraftId, onOpen, onRename, onDelete, onNew }: DraftsDrawerProps<D>) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline" className="gap-2 bg-background/50">
+          <FileText className="h-4 w-4" />
+          Drafts
+          {drafts.length > 0 && (
+            <span className="rounded-full bg-primary/10 px-2 text-xs font-semibold text-primary">{drafts.length}</span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col gap-4 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Drafts</SheetTitle>
+          <SheetDescription>
+            Your work is saved in this browser as you type. Name a draft to find it again later.
+          </SheetDescription>
+        </SheetHeader>
+        <Button
+          type="button"
+          variant="outline"
+          className="gap-2"
+          onClick={() => {
+            onNew();
+            setOpen(false);
+          }}
+        >
+          <FilePlus2 className="h-4 w-4" />
+          Start a new draft
+        </Button>
+        {drafts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No drafts yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {drafts.map((draft) => (
+              <DraftRow
+                key={draft.id}
+                draft={draft}
+                active={draft.id === activeDraftId}
+                onOpen={() => {
+                  onOpen(draft);
+                  setOpen(false);
+                }}
+                onRename={(name) => onRename(draft.id, name)}
+                onDelete={() => onDelete(draft.id)}
+              />
+            ))}
+          </ul>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { AlertTriangle, Lightbulb, X } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import { HASHTAG_ISSUE_MESSAGES, checkHashtag, dedupeHashtags, joinHashtags, parseHashtags } from '@/lib/hashtags';
+
+const COMMIT_KEYS = ['Enter', ' ', ','];
+
+interface HashtagInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> {
+  // Hashtags joined by spaces, which is how the form and payload store them
+  value?: string;
+  onChange: (value: string) => void;
+}
+
+export const HashtagInput = forwardRef<HTMLInputElement, HashtagInputProps>(
+  ({ value = '', onChange, onBlur, placeholder, className, ...props }, ref) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [draft, setDraft] = useState('');
+    useImperativeHandle(ref, () => inputRef.current);
+
+    const tags = parseHashtags(value);
+    const checks = tags.map(checkHashtag);
+
+    const update = (next: string[]) => onChange(joinHashtags(dedupeHashtags(next)));
+
+    const commit = (text: string) => {
+      const added = parseHashtags(text);
+      if (added.length > 0) update([...tags, ...added]);
+      setDraft('');
+    };
+
+    const removeTag = (tag: string) => update(tags.filter((existing) => existing !== tag));
+
+    const replaceTag = (tag: string, replacement: string) => {
+      update(tags.map((existing) => (existing === tag ? replacement : existing)));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (COMMIT_KEYS.includes(e.key) && draft.trim()) {
+        e.preventDefault();
+        commit(draft);
+      } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+        removeTag(tags[tags.length - 1]);
+      }
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      // Mobile keyboards don't always report key presses, so separators are also caught here
+      if (/[\s,;]/.test(e.target.value)) {
+        commit(e.target.value);
+      } else {
+        setDraft(e.target.value);
+      }
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+      const text = e.clipboardData.getData('text');
+      if (!text) return;
+      e.preventDefault();
+      // Keep the form's media paste handler from treating this as an upload
+      e.stopPropagation();
+      commit(`${draft} ${text}`);
+    };
+
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+      if (draft.trim()) commit(draft);
+      onBlur?.(e);
+    };
+
+    const flagged = checks.filter((check) => check.issue || check.suggestion);
+
+    return (
+      <div className="space-y-2">
+        <div
+          className={cn(
+            "flex min-h-14 w-full flex-wrap items-center gap-2 rounded-md border border-input bg-background/50 px-3 py-2 text-base transition-all duration-300 focus-within:border-primary/50 focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2 ring-offset-background",
+            className
+          )}
+          onClick={() => inputRef.current?.focus()}
+        >
+          {checks.map((check) => (
+            <span
+              key={check.tag}
+              className={cn(
+                "inline-flex items-center gap-1 rounded-full border px-2.5 py-1 text-sm font-medium",
+                check.issue === 'banned'
+                  ? "border-amber-500/40 bg-amber-500/10 text-amber-700 dark:text-amber-400"
+                  : check.issue
+                    ? "border-destructive/40 bg-destructive/10 text-destructive"
+                    : "border-primary/20 bg-primary/10 text-primary"
+              )}
+              title={check.issue ? HASHTAG_ISSUE_MESSAGES[check.issue] : undefined}
+            >
+              {check.issue && <AlertTriangle className="h-3.5 w-3.5" aria-hidden="true" />}
+              {check.tag}
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeTag(check.tag);
+                }}
+                className="rounded-full p-0.5 hover:bg-foreground/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                aria-label={`Remove ${check.tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            ref={inputRef}
+            value={draft}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onBlur={handleBlur}
+            placeholder={tags.length === 0 ? placeholder : undefined}
+            className="min-w-32 flex-1 bg-transparent outline-none placeholder:text-muted-foreground"
+            {...props}
+          />
+        </div>
+
+        {flagged.length > 0 && (
+          <ul className="space-y-1 text-sm" aria-live="polite">
+            {flagged.map((check) => (
+              <li key={check.tag} className="flex flex-wrap items-center gap-x-2">
+                {check.issue ? (
+                  <AlertTriangle className={cn("h-4 w-4", check.issue === 'banned' ? "text-amber-600" : "text-destructive")} />
+                ) : (
+                  <Lightbulb className="h-4 w-4 text-primary" />
+                )}
+                <span className="font-medium">{check.tag}</span>
+                <span className="text-muted-foreground">
+                  {check.issue ? HASHTAG_ISSUE_MESSAGES[check.issue] : 'Capitalize each word so screen readers can read it'}
+                </span>
+                {check.suggestion && (
+                  <button
+                    type="button"
+                    onClick={() => replaceTag(check.tag, check.suggestion)}
+                    className="font-medium text-primary underline-offset-4 hover:underline"
+                  >
+                    Use {check.suggestion}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+HashtagInput.displayName = 'HashtagInput';
@@ -0,0 +1,103 @@
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import { getTransferFiles } from '@/lib/media';
+
+interface MediaDropZoneProps {
+  accept: string;
+  onFiles: (files: File[]) => void;
+  hint: React.ReactNode;
+}
+
+export function MediaDropZone({ accept, onFiles, hint }: MediaDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  // dragenter/dragleave fire for every child element, so count depth instead of toggling
+  const dragDepth = useRef(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const openPicker = () => inputRef.current?.click();
+
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    dragDepth.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    const files = getTransferFiles(e.dataTransfer);
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      openPicker();
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Clear the input so picking the same file again still fires a change event
+    e.target.value = '';
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={accept}
+        onChange={handleInputChange}
+        className="hidden"
+        id="image-upload"
+        tabIndex={-1}
+      />
+      <div
+        role="button"
+        tabIndex={0}
+        aria-label="Upload media: drop files, paste, or press Enter to browse"
+        onClick={openPicker}
+        onKeyDown={handleKeyDown}
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={cn(
+          "flex flex-col items-center justify-center p-12 border-2 border-dashed rounded-2xl bg-gradient-to-br transition-all duration-300 cursor-pointer group focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
+          isDragging
+            ? "border-primary from-primary/15 to-primary-glow/15 scale-[1.01] shadow-lg shadow-primary/10"
+            : "border-primary/30 from-primary/5 to-primary-glow/5 hover:from-primary/10 hover:to-primary-glow/10"
+        )}
+      >
+        <Upload className={cn(
+          "h-16 w-16 text-primary mb-4 transition-transform duration-300",
+          isDragging ? "scale-110" : "group-hover:scale-110"
+        )} />
+        <h3 className="text-xl font-semibold text-foreground mb-2">
+          {isDragging ? 'Drop to upload' : 'Upload Visual Content'}
+        </h3>
+        <p className="text-base text-muted-foreground text-center">
+          Drag & drop, paste, or click to browse<br />
+          <span className="text-sm">{hint}</span>
+        </p>
+      </div>
+    </div>
+  );
+}
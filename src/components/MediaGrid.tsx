@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+
+import { MediaPreviewTile } from '@/components/MediaPreviewTile';
+import { cn } from '@/lib/utils';
+import { MediaItem } from '@/lib/media';
+
+// Custom drag type so tiles being reordered are never mistaken for dropped files
+const TILE_DRAG_TYPE = 'application/x-media-tile';
+
+interface MediaGridProps {
+  items: MediaItem[];
+  issues: Record<string, string[]>;
+  canCrop: boolean;
+  onMove: (from: number, to: number) => void;
+  onRemove: (id: string) => void;
+  onCrop: (id: string) => void;
+  onPickCover: (id: string) => void;
+  onAltTextChange: (id: string, altText: string) => void;
+}
+
+export function MediaGrid({ items, issues, canCrop, onMove, onRemove, onCrop, onPickCover, onAltTextChange }: MediaGridProps) {
+  // Tiles only become draggable while their grip is held, so the alt text field stays selectable
+  const [armedIndex, setArmedIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const resetDrag = () => {
+    setArmedIndex(null);
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData(TILE_DRAG_TYPE, String(index));
+    setDragIndex(index);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (!e.dataTransfer.types.includes(TILE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setOverIndex(index);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (!e.dataTransfer.types.includes(TILE_DRAG_TYPE)) return;
+    e.preventDefault();
+    const from = Number(e.dataTransfer.getData(TILE_DRAG_TYPE));
+    resetDrag();
+    onMove(from, index);
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-6 animate-scale-in" role="list" aria-label="Media order">
+      {items.map((item, index) => (
+        <div
+          key={item.id}
+          role="listitem"
+          draggable={armedIndex === index}
+          onDragStart={(e) => handleDragStart(e, index)}
+          onDragOver={(e) => handleDragOver(e, index)}
+          onDragLeave={() => setOverIndex((current) => (current === index ? null : current))}
+          onDrop={(e) => handleDrop(e, index)}
+          onDragEnd={resetDrag}
+          className={cn(
+            "rounded-xl transition-all duration-200",
+            dragIndex === index && "opacity-40",
+            overIndex === index && dragIndex !== index && "ring-2 ring-primary ring-offset-2"
+          )}
+        >
+          <MediaPreviewTile
+            item={item}
+            index={index}
+            total={items.length}
+            canCrop={canCrop}
+            issues={issues[item.id]}
+            onMove={(delta) => onMove(index, index + delta)}
+            onGripPointerDown={() => setArmedIndex(index)}
+            onGripPointerUp={() => dragIndex === null && setArmedIndex(null)}
+            onRemove={() => onRemove(item.id)}
+            onCrop={() => onCrop(item.id)}
+            onPickCover={() => onPickCover(item.id)}
+            onAltTextChange={(altText) => onAltTextChange(item.id, altText)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { ArrowRight, ChevronLeft, ChevronRight, Crop, Film, GripVertical, Loader2, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { MAX_ALT_TEXT_LENGTH, MediaItem } from '@/lib/media';
+import { formatFileSize } from '@/lib/media-validation';
+import { formatDuration } from '@/lib/video';
+
+interface MediaPreviewTileProps {
+  item: MediaItem;
+  index: number;
+  total: number;
+  onMove: (delta: number) => void;
+  onGripPointerDown: () => void;
+  onGripPointerUp: () => void;
+  onAltTextChange: (altText: string) => void;
+  onRemove: () => void;
+  onCrop: () => void;
+  onPickCover: () => void;
+  canCrop: boolean;
+  issues?: string[];
+}
+
+export function MediaPreviewTile({
+  item,
+  index,
+  total,
+  onMove,
+  onGripPointerDown,
+  onGripPointerUp,
+  onAltTextChange,
+  onRemove,
+  onCrop,
+  onPickCover,
+  canCrop,
+  issues = [],
+}: MediaPreviewTileProps) {
+  const saved = item.original.size - item.file.size;
+  const cropCount = Object.keys(item.crops).length;
+  const isVideo = item.kind === 'video';
+
+  return (
+    <div className="relative group">
+      <div className={cn(
+        "relative overflow-hidden rounded-xl border-2 bg-background/30 p-2",
+        issues.length > 0 ? "border-destructive/50" : "border-border/30"
+      )}>
+        {isVideo && !item.cover ? (
+          <video
+            src={item.previewUrl}
+            muted
+            playsInline
+            preload="metadata"
+            className={cn("w-full h-32 object-cover rounded-lg bg-black", item.status === 'processing' && "opacity-60")}
+          />
+        ) : (
+          <img
+            src={item.cover?.previewUrl ?? item.previewUrl}
+            alt={item.altText || `Upload ${index + 1}`}
+            className={cn("w-full h-32 object-cover rounded-lg", item.status === 'processing' && "opacity-60")}
+          />
+        )}
+        {item.status === 'processing' && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 text-primary animate-spin" />
+          </div>
+        )}
+        {isVideo && item.video && (
+          <span className="absolute top-3 left-3 rounded bg-black/70 px-1.5 py-0.5 text-xs font-medium text-white">
+            {formatDuration(item.video.duration)}
+          </span>
+        )}
+        <Button
+          type="button"
+          variant="destructive"
+          size="icon"
+          className="absolute -top-2 -right-2 h-8 w-8 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-all duration-300 shadow-lg"
+          onClick={onRemove}
+          aria-label={`Remove upload ${index + 1}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+        {isVideo ? (
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            className="absolute bottom-3 left-3 h-7 px-2 text-xs opacity-90"
+            onClick={onPickCover}
+            disabled={item.status !== 'ready'}
+          >
+            <Film className="h-3 w-3" />
+            Cover
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            className="absolute bottom-3 left-3 h-7 px-2 text-xs opacity-90"
+            onClick={onCrop}
+            disabled={!canCrop || item.status === 'processing'}
+            title={canCrop ? 'Crop per platform' : 'Select a platform to crop for it'}
+          >
+            <Crop className="h-3 w-3" />
+            {cropCount > 0 ? `${cropCount} crop${cropCount === 1 ? '' : 's'}` : 'Crop'}
+          </Button>
+        )}
+      </div>
+      <div className="mt-2 flex items-center justify-between gap-1">
+        <span
+          className="flex items-center gap-1 cursor-grab active:cursor-grabbing text-muted-foreground touch-none"
+          onPointerDown={onGripPointerDown}
+          onPointerUp={onGripPointerUp}
+          title="Drag to reorder"
+        >
+          <GripVertical className="h-4 w-4" />
+          <span className="text-xs font-medium">#{index + 1}</span>
+        </span>
+        <div className="flex items-center">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onMove(-1)}
+            disabled={index === 0}
+            aria-label={`Move upload ${index + 1} earlier`}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onMove(1)}
+            disabled={index === total - 1}
+            aria-label={`Move upload ${index + 1} later`}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <Input
+        value={item.altText}
+        onChange={(e) => onAltTextChange(e.target.value)}
+        maxLength={MAX_ALT_TEXT_LENGTH}
+        placeholder="Describe this for screen readers"
+        aria-label={`Alt text for upload ${index + 1}`}
+        className="mt-2 h-9 text-xs bg-background/50 border-border/50"
+      />
+      <div className="mt-2 flex items-center justify-center gap-1 text-xs text-muted-foreground">
+        {item.status === 'processing' && (
+          <span>{isVideo ? 'Reading video…' : `Optimizing ${formatFileSize(item.original.size)}…`}</span>
+        )}
+        {item.status === 'failed' && (
+          <span className="text-destructive">
+            {isVideo
+              ? item.error ?? 'Could not read this video'
+              : `Optimization failed · sending original (${formatFileSize(item.file.size)})`}
+          </span>
+        )}
+        {item.status === 'ready' && isVideo && item.video && (
+          <span className="text-center">
+            {item.video.width}×{item.video.height} · {formatFileSize(item.file.size)}
+            {item.video.codecs.length > 0 && ` · ${item.video.codecs.join(', ')}`}
+          </span>
+        )}
+        {item.status === 'ready' && !isVideo && (
+          <>
+            <span>{formatFileSize(item.original.size)}</span>
+            <ArrowRight className="h-3 w-3" />
+            <span className={cn("font-medium", saved > 0 ? "text-primary" : "text-foreground")}>
+              {formatFileSize(item.file.size)}
+            </span>
+          </>
+        )}
+      </div>
+      {issues.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-xs text-destructive">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
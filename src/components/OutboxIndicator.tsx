@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CloudOff, Inbox, Loader2, RotateCw, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { MAX_DELIVERY_ATTEMPTS, OutboxEntry } from '@/lib/outbox';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useToast } from '@/hooks/use-toast';
+
+function describeNextAttempt(entry: OutboxEntry, isOnline: boolean): string {
+  if (entry.status === 'failed') return `Gave up after ${entry.attempts} attempts`;
+  if (!isOnline) return 'Waiting for a connection';
+  return entry.nextAttemptAt <= Date.now()
+    ? 'Retrying now'
+    : `Retry ${entry.attempts + 1} of ${MAX_DELIVERY_ATTEMPTS} ${formatDistanceToNow(entry.nextAttemptAt, { addSuffix: true })}`;
+}
+
+export function OutboxIndicator() {
+  const { entries, isOnline, retry, discard } = useOutbox();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  if (entries.length === 0 && isOnline) return null;
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    setBusyId(entry.id);
+    try {
+      const outcome = await retry(entry.id);
+      if (outcome?.status === 'success') {
+        toast({ title: 'Post delivered', description: `"${entry.details.title}" reached its webhook.` });
+      } else if (outcome) {
+        toast({
+          title: 'Still not delivered',
+          description: outcome.httpStatus ? `The webhook responded with ${outcome.httpStatus}.` : outcome.responseBody,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Outbox retry error:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    try {
+      await discard(entry.id);
+    } catch (error) {
+      console.error('Outbox discard error:', error);
+    }
+  };
+
+  const hasFailures = entries.some(({ status }) => status === 'failed');
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className={cn("gap-2 bg-background/50", hasFailures && "border-destructive/50 text-destructive")}
+        >
+          {isOnline ? <Inbox className="h-4 w-4" /> : <CloudOff className="h-4 w-4" />}
+          {isOnline ? 'Outbox' : 'Offline'}
+          {entries.length > 0 && <Badge variant="secondary" className="px-1.5">{entries.length}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="end">
+        <div className="space-y-3">
+          <div>
+            <p className="font-medium">Outbox</p>
+            <p className="text-sm text-muted-foreground">
+              {isOnline
+                ? 'Posts that did not reach their webhook are retried automatically.'
+                : 'You are offline. Queued posts are sent once the connection is back.'}
+            </p>
+          </div>
+          {entries.length === 0 && <p className="text-sm text-muted-foreground">Nothing queued.</p>}
+          <ul className="max-h-80 space-y-2 overflow-y-auto">
+            {entries.map((entry) => (
+              <li key={entry.id} className="rounded-lg border border-border/50 p-3 space-y-2">
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{entry.details.title}</p>
+                  <p className={cn("text-xs", entry.status === 'failed' ? "text-destructive" : "text-muted-foreground")}>
+                    {describeNextAttempt(entry, isOnline)}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground" title={entry.lastError}>
+                    Last error: {entry.lastError}
+                  </p>
+                </div>
+                <div className="flex justify-end gap-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1"
+                    disabled={busyId === entry.id || !isOnline}
+                    onClick={() => handleRetry(entry)}
+                  >
+                    {busyId === entry.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RotateCw className="h-3.5 w-3.5" />}
+                    Retry now
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1 text-destructive hover:text-destructive"
+                    disabled={busyId === entry.id}
+                    onClick={() => handleDiscard(entry)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    Discard
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,149 @@
+import { UseFormReturn, useFieldArray } from 'react-hook-form';
+import { ArrowRight, Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  MAPPING_PRESETS,
+  MAPPING_PRESET_IDS,
+  MAPPING_SOURCES,
+  MAPPING_SOURCE_IDS,
+  MAPPING_TRANSFORMS,
+  MappingPresetId,
+  MappingTransform,
+} from '@/lib/payload-mapping';
+import type { WebhookProfileInput } from '@/lib/webhook-profiles';
+
+interface PayloadMappingEditorProps {
+  form: UseFormReturn<WebhookProfileInput>;
+}
+
+export function PayloadMappingEditor({ form }: PayloadMappingEditorProps) {
+  const fields = useFieldArray({ control: form.control, name: 'mapping.fields' });
+  const preset = form.watch('mapping.preset');
+
+  // Switching to custom starts from whatever was selected, so small tweaks stay small
+  const handlePresetChange = (next: MappingPresetId) => {
+    if (next === 'custom' && fields.fields.length === 0) {
+      fields.replace(MAPPING_PRESETS[preset].fields);
+    }
+    form.setValue('mapping.preset', next, { shouldDirty: true });
+  };
+
+  return (
+    <div className="space-y-3">
+      <FormField
+        control={form.control}
+        name="mapping.preset"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Field mapping</FormLabel>
+            <Select value={field.value} onValueChange={(value) => handlePresetChange(value as MappingPresetId)}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {MAPPING_PRESET_IDS.map((id) => (
+                  <SelectItem key={id} value={id}>{MAPPING_PRESETS[id].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>{MAPPING_PRESETS[field.value].description}</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {preset === 'custom' && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Targets are dot-separated JSON paths such as <code>post.title</code>. Multipart payloads use the whole path as the form key.
+          </p>
+          {fields.fields.map((entry, index) => (
+            <div key={entry.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`mapping.fields.${index}.source`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Source field">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {MAPPING_SOURCE_IDS.map((source) => (
+                          <SelectItem key={source} value={source}>{MAPPING_SOURCES[source]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <ArrowRight className="mt-3 h-4 w-4 shrink-0 text-muted-foreground" />
+              <FormField
+                control={form.control}
+                name={`mapping.fields.${index}.target`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="post.title" aria-label="Target path" className="font-mono text-sm" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`mapping.fields.${index}.transform`}
+                render={({ field }) => (
+                  <FormItem className="w-40">
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Transform">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(MAPPING_TRANSFORMS) as MappingTransform[]).map((transform) => (
+                          <SelectItem key={transform} value={transform}>{MAPPING_TRANSFORMS[transform]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => fields.remove(index)} aria-label="Remove field">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <FormField
+            control={form.control}
+            name="mapping.fields"
+            render={() => (
+              <FormItem>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() => fields.append({ source: 'postTitle', target: '', transform: 'none' })}
+          >
+            <Plus className="h-4 w-4" />
+            Add field
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
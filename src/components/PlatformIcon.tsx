@@ -0,0 +1,12 @@
+import { cn } from '@/lib/utils';
+import { PlatformDefinition, platformStyle } from '@/lib/platforms';
+
+interface PlatformIconProps {
+  platform: PlatformDefinition;
+  className?: string;
+}
+
+export function PlatformIcon({ platform, className }: PlatformIconProps) {
+  const IconComponent = platform.icon;
+  return <IconComponent className={cn("text-platform", className)} style={platformStyle(platform)} />;
+}
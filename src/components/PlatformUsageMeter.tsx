@@ -0,0 +1,61 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+import { Progress } from '@/components/ui/progress';
+import { PlatformIcon } from '@/components/PlatformIcon';
+import { cn } from '@/lib/utils';
+import { PostContent, RuleUsage, isOverLimit, measurePost } from '@/lib/platform-rules';
+import { PlatformDefinition } from '@/lib/platforms';
+
+interface PlatformUsageMeterProps {
+  platforms: PlatformDefinition[];
+  contentFor: (platformId: string) => PostContent;
+  mediaCount: number;
+}
+
+function UsageFigure({ label, usage }: { label: string; usage: RuleUsage }) {
+  if (usage.max === undefined) return null;
+  return (
+    <span className={cn(usage.over ? "text-destructive font-medium" : "text-muted-foreground")}>
+      {label} {usage.used.toLocaleString()}/{usage.max.toLocaleString()}
+    </span>
+  );
+}
+
+export function PlatformUsageMeter({ platforms, contentFor, mediaCount }: PlatformUsageMeterProps) {
+  if (platforms.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border/50 bg-background/30 p-4" aria-live="polite">
+      <p className="text-sm font-medium text-foreground">Platform limits</p>
+      {platforms.map((platform) => {
+        const usage = measurePost(platform.rules, contentFor(platform.id), mediaCount);
+        const over = isOverLimit(usage);
+        return (
+          <div key={platform.id} className="space-y-1.5">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2">
+                <PlatformIcon platform={platform} className="h-4 w-4" />
+                <span className="font-medium">{platform.label}</span>
+                {over ? (
+                  <AlertTriangle className="h-4 w-4 text-destructive" aria-label="Over limit" />
+                ) : (
+                  <CheckCircle2 className="h-4 w-4 text-primary/70" aria-label="Within limits" />
+                )}
+              </span>
+              <span className="flex flex-wrap justify-end gap-x-3 text-xs">
+                <UsageFigure label="Chars" usage={usage.caption} />
+                <UsageFigure label="Tags" usage={usage.hashtags} />
+                <UsageFigure label="Mentions" usage={usage.mentions} />
+                <UsageFigure label="Media" usage={usage.media} />
+              </span>
+            </div>
+            <Progress
+              value={Math.min(100, (usage.caption.used / platform.rules.captionMax) * 100)}
+              className={cn("h-1.5", usage.caption.over && "[&>div]:bg-destructive")}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, CalendarRange, History, ImageOff, X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PlatformIcon } from '@/components/PlatformIcon';
+import { ResponseBodyPopover } from '@/components/ResponseBodyPopover';
+import { TablePagination } from '@/components/TablePagination';
+import { cn } from '@/lib/utils';
+import { PLATFORMS, getPlatform } from '@/lib/platforms';
+import { formatInTimeZone } from '@/lib/timezones';
+import { getPageCount, paginate } from '@/lib/pagination';
+import { describeWebhookUrl } from '@/lib/webhook-profiles';
+import {
+  DEFAULT_POST_FILTERS,
+  POST_STATUS_LABELS,
+  PostFilters,
+  PostRecord,
+  PostSort,
+  PostSortKey,
+  PostStatus,
+  filterPosts,
+  listPosts,
+  sortPosts,
+} from '@/lib/posts';
+
+const STATUS_STYLES: Record<PostStatus, string> = {
+  success: 'bg-emerald-500/10 text-emerald-700 border-emerald-500/20 dark:text-emerald-400',
+  'http-error': 'bg-destructive/10 text-destructive border-destructive/20',
+  'network-error': 'bg-amber-500/10 text-amber-700 border-amber-500/20 dark:text-amber-400',
+};
+
+function SortableHead({ label, sortKey, sort, onSort, className }: {
+  label: string;
+  sortKey: PostSortKey;
+  sort: PostSort;
+  onSort: (key: PostSortKey) => void;
+  className?: string;
+}) {
+  const active = sort.key === sortKey;
+  const Icon = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead
+      className={className}
+      aria-sort={active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <Button type="button" variant="ghost" size="sm" className="-ml-3 h-8 gap-1" onClick={() => onSort(sortKey)}>
+        {label}
+        <Icon className={cn("h-3.5 w-3.5", !active && "text-muted-foreground/60")} />
+      </Button>
+    </TableHead>
+  );
+}
+
+export default function PostHistory() {
+  const [posts, setPosts] = useState<PostRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<PostFilters>(DEFAULT_POST_FILTERS);
+  const [sort, setSort] = useState<PostSort>({ key: 'submittedAt', direction: 'desc' });
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    listPosts()
+      .then(setPosts)
+      .catch((error) => {
+        console.error('Could not load post history:', error);
+        setLoadError('Post history could not be loaded from this browser.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visiblePosts = sortPosts(filterPosts(posts, filters), sort);
+  const pageCount = getPageCount(visiblePosts.length);
+  const currentPage = Math.min(page, pageCount);
+  const pagePosts = paginate(visiblePosts, currentPage);
+
+  // Any change to what is listed starts again from the first page
+  const updateFilters = (changes: Partial<PostFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters(DEFAULT_POST_FILTERS);
+    setPage(1);
+  };
+
+  const handleSort = (key: PostSortKey) => {
+    setSort((prev) => ({
+      key,
+      direction: prev.key === key && prev.direction === 'desc' ? 'asc' : 'desc',
+    }));
+    setPage(1);
+  };
+
+  const handleDateRange = (range: DateRange | undefined) => {
+    updateFilters({ from: range?.from, to: range?.to });
+  };
+
+  const isFiltered = filters.platform !== 'all' || filters.status !== 'all' || Boolean(filters.from);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="max-w-7xl mx-auto p-6 pt-12 space-y-8">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-3 text-4xl font-display font-bold text-foreground">
+              <History className="h-8 w-8 text-primary" />
+              Post History
+            </h1>
+            <p className="mt-2 text-muted-foreground">Every post submitted from this browser and how its webhook responded.</p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to composer
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="backdrop-blur-xl bg-card/80 border-0 shadow-2xl shadow-primary/5">
+          <CardHeader className="space-y-4">
+            <div>
+              <CardTitle className="text-xl">Submissions</CardTitle>
+              <CardDescription>
+                {isLoading
+                  ? 'Loading…'
+                  : `${visiblePosts.length} of ${posts.length} ${posts.length === 1 ? 'post' : 'posts'}`}
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={filters.platform} onValueChange={(platform) => updateFilters({ platform })}>
+                <SelectTrigger className="w-44" aria-label="Filter by platform">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All platforms</SelectItem>
+                  {PLATFORMS.map((platform) => (
+                    <SelectItem key={platform.id} value={platform.id}>{platform.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.status}
+                onValueChange={(status) => updateFilters({ status: status as PostFilters['status'] })}
+              >
+                <SelectTrigger className="w-44" aria-label="Filter by status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {(Object.keys(POST_STATUS_LABELS) as PostStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{POST_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button type="button" variant="outline" className={cn("gap-2", !filters.from && "text-muted-foreground")}>
+                    <CalendarRange className="h-4 w-4" />
+                    {filters.from
+                      ? `${format(filters.from, 'PP')}${filters.to ? ` – ${format(filters.to, 'PP')}` : ''}`
+                      : 'Scheduled date'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={{ from: filters.from, to: filters.to }}
+                    onSelect={handleDateRange}
+                    numberOfMonths={2}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {isFiltered && (
+                <Button type="button" variant="ghost" className="gap-1" onClick={clearFilters}>
+                  <X className="h-4 w-4" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16"><span className="sr-only">Thumbnail</span></TableHead>
+                  <SortableHead label="Title" sortKey="title" sort={sort} onSort={handleSort} />
+                  <TableHead>Platforms</TableHead>
+                  <SortableHead label="Scheduled" sortKey="scheduledAt" sort={sort} onSort={handleSort} />
+                  <TableHead>Webhook</TableHead>
+                  <SortableHead label="Status" sortKey="httpStatus" sort={sort} onSort={handleSort} />
+                  <TableHead>Response</TableHead>
+                  <SortableHead label="Submitted" sortKey="submittedAt" sort={sort} onSort={handleSort} />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pagePosts.map((post) => (
+                  <TableRow key={post.id}>
+                    <TableCell>
+                      {post.thumbnail ? (
+                        <img src={post.thumbnail} alt="" className="h-12 w-12 rounded-md object-cover" />
+                      ) : (
+                        <div className="flex h-12 w-12 items-center justify-center rounded-md bg-muted">
+                          <ImageOff className="h-4 w-4 text-muted-foreground" />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-[14rem]">
+                      <p className="font-medium truncate">{post.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">{post.caption}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1.5">
+                        {post.platforms.map((id) => {
+                          const platform = getPlatform(id);
+                          return platform ? (
+                            <span key={id} title={platform.label}>
+                              <PlatformIcon platform={platform} className="h-4 w-4" />
+                            </span>
+                          ) : (
+                            <span key={id} className="text-xs">{id}</span>
+                          );
+                        })}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatInTimeZone(new Date(post.scheduledAt), post.timezone)}
+                      <p className="text-xs text-muted-foreground">{post.timezone.replace(/_/g, ' ')}</p>
+                    </TableCell>
+                    <TableCell className="max-w-[12rem]">
+                      <p className="truncate text-xs font-mono" title={post.webhookUrl}>{describeWebhookUrl(post.webhookUrl)}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn("whitespace-nowrap", STATUS_STYLES[post.status])}>
+                        {post.httpStatus ?? POST_STATUS_LABELS[post.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <ResponseBodyPopover body={post.responseBody} />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {format(post.submittedAt, 'PP p')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!isLoading && pagePosts.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                      {loadError ?? (posts.length === 0 ? 'Nothing has been submitted yet.' : 'No posts match these filters.')}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            <TablePagination page={currentPage} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Bookmark, Eye, Globe, Heart, MessageCircle, MoreHorizontal, Play, Repeat2, Send, Share2, ThumbsUp } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Carousel, CarouselApi, CarouselContent, CarouselItem } from '@/components/ui/carousel';
+import { PlatformIcon } from '@/components/PlatformIcon';
+import { cn } from '@/lib/utils';
+import { MediaItem } from '@/lib/media';
+import { ASPECT_RATIOS, CropSettings } from '@/lib/image-crop';
+import { PostContent, composePostText } from '@/lib/platform-rules';
+import { PlatformDefinition, platformStyle } from '@/lib/platforms';
+
+const ACCOUNT_NAME = 'Your Brand';
+const ACCOUNT_HANDLE = 'yourbrand';
+
+interface PostPreviewPanelProps {
+  platforms: PlatformDefinition[];
+  contentFor: (platformId: string) => PostContent;
+  media: MediaItem[];
+  scheduledAt?: Date;
+}
+
+function RichText({ text, linkClassName }: { text: string; linkClassName: string }) {
+  const parts = text.split(/((?:^|\s)[#@][\p{L}\p{N}_.]+)/u);
+  return (
+    <>
+      {parts.map((part, index) =>
+        /[#@]/.test(part.trim()[0] ?? '') ? (
+          <span key={index} className={linkClassName}>{part}</span>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function FoldedText({ platform, content, linkClassName }: {
+  platform: PlatformDefinition;
+  content: PostContent;
+  linkClassName: string;
+}) {
+  const text = composePostText(content);
+  const fold = platform.feedFold;
+  const characters = Array.from(text);
+  const truncated = fold !== undefined && characters.length > fold.at;
+  const visible = truncated ? characters.slice(0, fold.at).join('').trimEnd() : text;
+
+  if (!text.trim()) {
+    return <p className="text-sm text-muted-foreground italic">Your caption will appear here.</p>;
+  }
+
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      <RichText text={visible} linkClassName={linkClassName} />
+      {truncated && (
+        <span className="text-muted-foreground">
+          {fold.ellipsis}
+          <span className="font-medium">{fold.label}</span>
+        </span>
+      )}
+    </p>
+  );
+}
+
+// Shows the same framing the crop editor produced, without re-encoding the image
+function MediaFrame({ item, crop, className }: { item: MediaItem; crop?: CropSettings; className?: string }) {
+  const src = item.cover?.previewUrl ?? item.previewUrl;
+  const ratio = crop ? ASPECT_RATIOS.find((preset) => preset.id === crop.aspect)?.ratio : undefined;
+
+  return (
+    <div
+      className={cn("relative overflow-hidden bg-muted", className)}
+      style={ratio ? { aspectRatio: String(ratio) } : undefined}
+    >
+      {crop ? (
+        <img
+          src={src}
+          alt={item.altText}
+          className="absolute max-w-none"
+          style={{
+            width: `${100 / crop.width}%`,
+            height: `${100 / crop.height}%`,
+            left: `${(-crop.x / crop.width) * 100}%`,
+            top: `${(-crop.y / crop.height) * 100}%`,
+          }}
+        />
+      ) : (
+        <img src={src} alt={item.altText} className="absolute inset-0 h-full w-full object-cover" />
+      )}
+      {item.kind === 'video' && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="rounded-full bg-black/60 p-3">
+            <Play className="h-6 w-6 text-white fill-white" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Avatar({ className }: { className?: string }) {
+  return (
+    <div className={cn("flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-primary to-primary-glow text-sm font-semibold text-white", className)}>
+      {ACCOUNT_NAME.charAt(0)}
+    </div>
+  );
+}
+
+function FacebookPreview({ platform, content, media, scheduledAt }: {
+  platform: PlatformDefinition;
+  content: PostContent;
+  media: MediaItem[];
+  scheduledAt?: Date;
+}) {
+  return (
+    <div className="rounded-lg border bg-white text-[#050505] shadow-sm">
+      <div className="flex items-center gap-2 p-3">
+        <Avatar />
+        <div className="flex-1">
+          <p className="text-sm font-semibold">{ACCOUNT_NAME}</p>
+          <p className="flex items-center gap-1 text-xs text-[#65676b]">
+            {scheduledAt ? format(scheduledAt, "MMM d 'at' p") : 'Just now'} · <Globe className="h-3 w-3" />
+          </p>
+        </div>
+        <MoreHorizontal className="h-5 w-5 text-[#65676b]" />
+      </div>
+      <div className="px-3 pb-3">
+        <FoldedText platform={platform} content={content} linkClassName="text-[#1877f2]" />
+      </div>
+      {media.length > 0 && (
+        <div className={cn("grid gap-0.5", media.length > 1 && "grid-cols-2")}>
+          {media.slice(0, 4).map((item, index) => (
+            <div key={item.id} className="relative">
+              <MediaFrame
+                item={item}
+                crop={item.crops.facebook}
+                className={cn(!item.crops.facebook && (media.length === 1 ? "aspect-[1.91/1]" : "aspect-square"))}
+              />
+              {index === 3 && media.length > 4 && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/40 text-2xl font-semibold text-white">
+                  +{media.length - 4}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-around border-t mx-3 py-1 text-sm font-medium text-[#65676b]">
+        <span className="flex items-center gap-1.5 py-1"><ThumbsUp className="h-4 w-4" /> Like</span>
+        <span className="flex items-center gap-1.5 py-1"><MessageCircle className="h-4 w-4" /> Comment</span>
+        <span className="flex items-center gap-1.5 py-1"><Share2 className="h-4 w-4" /> Share</span>
+      </div>
+    </div>
+  );
+}
+
+function InstagramPreview({ platform, content, media }: { platform: PlatformDefinition; content: PostContent; media: MediaItem[] }) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    api.on('reInit', onSelect);
+    return () => {
+      api.off('select', onSelect);
+      api.off('reInit', onSelect);
+    };
+  }, [api]);
+
+  return (
+    <div className="rounded-lg border bg-white text-[#262626] shadow-sm" style={platformStyle(platform)}>
+      <div className="flex items-center gap-2 p-3">
+        <Avatar className="h-8 w-8 text-xs ring-2 ring-platform ring-offset-1" />
+        <p className="flex-1 text-sm font-semibold">{ACCOUNT_HANDLE}</p>
+        <MoreHorizontal className="h-5 w-5" />
+      </div>
+      {media.length > 0 ? (
+        <Carousel setApi={setApi} className="w-full">
+          <CarouselContent className="ml-0">
+            {media.map((item) => (
+              <CarouselItem key={item.id} className="pl-0">
+                <MediaFrame item={item} crop={item.crops.instagram} className={cn(!item.crops.instagram && "aspect-square")} />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {media.length > 1 && (
+            <span className="absolute top-3 right-3 rounded-full bg-black/70 px-2 py-0.5 text-xs text-white">
+              {current + 1}/{media.length}
+            </span>
+          )}
+        </Carousel>
+      ) : (
+        <div className="flex aspect-square items-center justify-center bg-muted text-sm text-muted-foreground">
+          Instagram posts need an image or video
+        </div>
+      )}
+      <div className="flex items-center gap-4 px-3 pt-3">
+        <Heart className="h-6 w-6" />
+        <MessageCircle className="h-6 w-6" />
+        <Send className="h-6 w-6" />
+        {media.length > 1 && (
+          <div className="flex flex-1 justify-center gap-1" aria-hidden="true">
+            {media.map((item, index) => (
+              <span
+                key={item.id}
+                className={cn("h-1.5 w-1.5 rounded-full", index === current ? "bg-[#0095f6]" : "bg-[#a8a8a8]")}
+              />
+            ))}
+          </div>
+        )}
+        <Bookmark className={cn("h-6 w-6", media.length <= 1 && "ml-auto")} />
+      </div>
+      <div className="p-3 space-y-1">
+        <span className="text-sm font-semibold mr-1">{ACCOUNT_HANDLE}</span>
+        <FoldedText platform={platform} content={content} linkClassName="text-[#00376b]" />
+      </div>
+    </div>
+  );
+}
+
+function LinkedInPreview({ platform, content, media }: { platform: PlatformDefinition; content: PostContent; media: MediaItem[] }) {
+  return (
+    <div className="rounded-lg border bg-white text-[#000000e6] shadow-sm">
+      <div className="flex items-start gap-2 p-3">
+        <Avatar className="h-12 w-12 rounded-md" />
+        <div className="flex-1">
+          <p className="text-sm font-semibold">{ACCOUNT_NAME}</p>
+          <p className="text-xs text-[#00000099]">1,234 followers</p>
+          <p className="flex items-center gap-1 text-xs text-[#00000099]">Now · <Globe className="h-3 w-3" /></p>
+        </div>
+        <MoreHorizontal className="h-5 w-5 text-[#00000099]" />
+      </div>
+      <div className="px-3 pb-3">
+        <FoldedText platform={platform} content={content} linkClassName="text-[#0a66c2] font-semibold" />
+      </div>
+      {media.length > 0 && (
+        <div className={cn("grid gap-0.5", media.length > 1 && "grid-cols-2")}>
+          {media.slice(0, 4).map((item) => (
+            <MediaFrame
+              key={item.id}
+              item={item}
+              crop={item.crops.linkedin}
+              className={cn(!item.crops.linkedin && (media.length === 1 ? "aspect-[1.91/1]" : "aspect-square"))}
+            />
+          ))}
+        </div>
+      )}
+      <div className="flex justify-around border-t mx-3 py-1 text-xs font-semibold text-[#00000099]">
+        <span className="flex items-center gap-1 py-2"><ThumbsUp className="h-4 w-4" /> Like</span>
+        <span className="flex items-center gap-1 py-2"><MessageCircle className="h-4 w-4" /> Comment</span>
+        <span className="flex items-center gap-1 py-2"><Repeat2 className="h-4 w-4" /> Repost</span>
+        <span className="flex items-center gap-1 py-2"><Send className="h-4 w-4" /> Send</span>
+      </div>
+    </div>
+  );
+}
+
+// Platforms without a dedicated mockup get a plain card with their own text and media limits
+function GenericPreview({ platform, content, media }: { platform: PlatformDefinition; content: PostContent; media: MediaItem[] }) {
+  const visibleMedia = media.slice(0, platform.rules.mediaMax);
+  return (
+    <div className="rounded-lg border bg-white text-[#0f1419] shadow-sm" style={platformStyle(platform)}>
+      <div className="flex items-start gap-2 p-3">
+        <Avatar />
+        <div className="flex-1 min-w-0 space-y-2">
+          <p className="text-sm">
+            <span className="font-semibold">{ACCOUNT_NAME}</span>{' '}
+            <span className="text-[#536471]">@{ACCOUNT_HANDLE}</span>
+          </p>
+          <FoldedText platform={platform} content={content} linkClassName="text-platform" />
+          {visibleMedia.length > 0 && (
+            <div className={cn("grid gap-0.5 overflow-hidden rounded-xl border", visibleMedia.length > 1 && "grid-cols-2")}>
+              {visibleMedia.slice(0, 4).map((item) => (
+                <MediaFrame
+                  key={item.id}
+                  item={item}
+                  crop={item.crops[platform.id]}
+                  className={cn(!item.crops[platform.id] && "aspect-square")}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function PostPreviewPanel({ platforms, contentFor, media, scheduledAt }: PostPreviewPanelProps) {
+  // Videos have nothing to show until their cover frame has been captured
+  const readyMedia = media.filter((item) => item.kind === 'image' || item.cover);
+
+  return (
+    <Card className="backdrop-blur-xl bg-card/80 border-0 shadow-2xl shadow-primary/5 animate-slide-up">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-xl font-display font-semibold">
+          <Eye className="h-5 w-5 text-primary" />
+          Live Preview
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {platforms.length === 0 && (
+          <p className="text-sm text-muted-foreground">Select a platform to see how the post will look.</p>
+        )}
+        {platforms.map((platform) => {
+          const content = contentFor(platform.id);
+          return (
+            <section key={platform.id} className="space-y-2" aria-label={`${platform.label} preview`}>
+              <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <PlatformIcon platform={platform} className="h-4 w-4" />
+                {platform.label}
+              </p>
+              {platform.id === 'facebook' ? (
+                <FacebookPreview platform={platform} content={content} media={readyMedia} scheduledAt={scheduledAt} />
+              ) : platform.id === 'instagram' ? (
+                <InstagramPreview platform={platform} content={content} media={readyMedia} />
+              ) : platform.id === 'linkedin' ? (
+                <LinkedInPreview platform={platform} content={content} media={readyMedia} />
+              ) : (
+                <GenericPreview platform={platform} content={content} media={readyMedia} />
+              )}
+            </section>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+import { useFormContext } from 'react-hook-form';
+import { format, startOfDay, startOfToday } from 'date-fns';
+import { CalendarIcon, Repeat } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+import {
+  MONTHLY_POSITIONS,
+  POSITION_LABELS,
+  Recurrence,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  Weekday,
+  buildRRule,
+  expandOccurrences,
+  withStartDefaults,
+} from '@/lib/recurrence';
+
+const PREVIEW_OCCURRENCES = 5;
+
+const INTERVAL_UNITS: Record<Exclude<Recurrence['frequency'], 'none'>, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+interface RecurrenceFormValues {
+  recurrence: Recurrence;
+  scheduledDate?: Date;
+  timezone: string;
+}
+
+export function RecurrenceBuilder() {
+  const form = useFormContext<RecurrenceFormValues>();
+  const recurrence = form.watch('recurrence');
+  const start = form.watch('scheduledDate');
+  const timeZone = form.watch('timezone');
+
+  const handleFrequencyChange = (frequency: Recurrence['frequency']) => {
+    const next = start ? withStartDefaults(recurrence, start) : recurrence;
+    form.setValue('recurrence', { ...next, frequency }, { shouldValidate: form.formState.isSubmitted });
+  };
+
+  const rrule = buildRRule(recurrence, timeZone);
+  const preview = start && rrule ? expandOccurrences(recurrence, start, PREVIEW_OCCURRENCES) : [];
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name="recurrence.frequency"
+        render={({ field }) => (
+          <FormItem className="space-y-3">
+            <FormLabel className="text-lg font-semibold text-foreground flex items-center gap-2">
+              <Repeat className="h-5 w-5 text-primary" />
+              Repeat
+            </FormLabel>
+            <Select value={field.value} onValueChange={handleFrequencyChange}>
+              <FormControl>
+                <SelectTrigger className="h-14 text-base bg-background/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+
+      {recurrence.frequency !== 'none' && (
+        <div className="space-y-4 rounded-xl border border-border/50 bg-background/30 p-4">
+          <FormField
+            control={form.control}
+            name="recurrence.interval"
+            render={({ field }) => (
+              <FormItem className="space-y-2">
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="text-muted-foreground">Every</span>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={99}
+                      className="w-20"
+                      value={Number.isNaN(field.value) ? '' : field.value}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <span className="text-muted-foreground">{INTERVAL_UNITS[recurrence.frequency]}</span>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {recurrence.frequency === 'weekly' && (
+            <FormField
+              control={form.control}
+              name="recurrence.weekdays"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <FormLabel className="text-sm">On</FormLabel>
+                  <FormControl>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      className="justify-start flex-wrap"
+                      value={field.value}
+                      onValueChange={(days) => field.onChange(WEEKDAYS.filter((day) => days.includes(day)))}
+                    >
+                      {WEEKDAYS.map((day) => (
+                        <ToggleGroupItem key={day} value={day} aria-label={WEEKDAY_LABELS[day]} className="w-11">
+                          {WEEKDAY_LABELS[day].slice(0, 2)}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {recurrence.frequency === 'monthly' && (
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-muted-foreground">On the</span>
+              <FormField
+                control={form.control}
+                name="recurrence.monthlyPosition"
+                render={({ field }) => (
+                  <Select value={String(field.value)} onValueChange={(position) => field.onChange(Number(position))}>
+                    <SelectTrigger className="w-28" aria-label="Week of month">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MONTHLY_POSITIONS.map((position) => (
+                        <SelectItem key={position} value={String(position)}>
+                          {POSITION_LABELS[position]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="recurrence.monthlyWeekday"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={(day) => field.onChange(day as Weekday)}>
+                    <SelectTrigger className="w-36" aria-label="Weekday">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map((day) => (
+                        <SelectItem key={day} value={day}>
+                          {WEEKDAY_LABELS[day]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-start gap-3 text-sm">
+            <span className="text-muted-foreground pt-2.5">Ends</span>
+            <FormField
+              control={form.control}
+              name="recurrence.endType"
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger className="w-32" aria-label="End condition">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">After</SelectItem>
+                    <SelectItem value="until">On date</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            {recurrence.endType === 'count' ? (
+              <FormField
+                control={form.control}
+                name="recurrence.count"
+                render={({ field }) => (
+                  <FormItem className="space-y-2">
+                    <div className="flex items-center gap-3">
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-20"
+                          value={Number.isNaN(field.value) ? '' : field.value}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <span className="text-muted-foreground">occurrences</span>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="recurrence.until"
+                render={({ field }) => (
+                  <FormItem className="space-y-2">
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className={cn("w-48 justify-start font-normal", !field.value && "text-muted-foreground")}
+                          >
+                            <CalendarIcon className="h-4 w-4" />
+                            {field.value ? format(field.value, 'PPP') : 'Pick end date'}
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0 bg-card/95 backdrop-blur-xl border-primary/20" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          disabled={(date) => date < (start ? startOfDay(start) : startOfToday())}
+                          initialFocus
+                          className="p-4 pointer-events-auto"
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+
+          {preview.length > 0 ? (
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <p className="text-sm font-medium text-foreground">Next occurrences</p>
+              <ul className="space-y-1 text-sm text-muted-foreground">
+                {preview.map((occurrence) => (
+                  <li key={occurrence.getTime()}>{format(occurrence, "EEE, PPP 'at' p")}</li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground font-mono break-all">RRULE:{rrule}</p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {start ? 'No occurrences match this rule.' : 'Pick a date and time to preview occurrences.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { AlertCircle, X } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { MediaValidationResult } from '@/lib/media-validation';
+
+interface RejectedFilesListProps {
+  rejected: MediaValidationResult[];
+  onDismiss: () => void;
+}
+
+export function RejectedFilesList({ rejected, onDismiss }: RejectedFilesListProps) {
+  if (rejected.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className="relative bg-destructive/5 animate-fade-in">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>
+        {rejected.length === 1 ? '1 file was not added' : `${rejected.length} files were not added`}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {rejected.map(({ file, reason }, index) => (
+            <li key={`${file.name}-${index}`} className="flex gap-2">
+              <span className="font-medium truncate max-w-[16rem]">{file.name}</span>
+              <span className="text-destructive/80">— {reason}</span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="absolute top-2 right-2 h-7 w-7"
+        onClick={onDismiss}
+        aria-label="Dismiss rejected files"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </Alert>
+  );
+}
@@ -0,0 +1,20 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+export function ResponseBodyPopover({ body }: { body: string }) {
+  if (!body) return <span className="text-muted-foreground">—</span>;
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="max-w-[14rem] truncate text-left font-mono text-xs text-muted-foreground hover:text-foreground"
+        >
+          {body}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="start">
+        <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words text-xs">{body}</pre>
+      </PopoverContent>
+    </Popover>
+  );
+}
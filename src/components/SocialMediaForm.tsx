@@ -1,48 +1,183 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { Link, useSearchParams } from 'react-router-dom';
+import { formatDistanceToNow, isValid, parseISO } from 'date-fns';
 import { z } from 'zod';
-import { format } from 'date-fns';
-import { CalendarIcon, Upload, X, Facebook, Instagram, Linkedin, Send, Loader2, Sparkles, Clock, Target, Wand2 } from 'lucide-react';
+import { CalendarDays, History, ScrollText, Send, Loader2, Sparkles, Clock, Target, Wand2 } from 'lucide-react';
 
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DateTimePicker } from '@/components/DateTimePicker';
+import { TimeZoneSelect } from '@/components/TimeZoneSelect';
+import { RecurrenceBuilder } from '@/components/RecurrenceBuilder';
+import { CaptionVariantsEditor } from '@/components/CaptionVariantsEditor';
+import { PlatformUsageMeter } from '@/components/PlatformUsageMeter';
+import { PostPreviewPanel } from '@/components/PostPreviewPanel';
+import { PlatformIcon } from '@/components/PlatformIcon';
+import { DraftsDrawer } from '@/components/DraftsDrawer';
+import { DraftRestoreBanner } from '@/components/DraftRestoreBanner';
+import { OutboxIndicator } from '@/components/OutboxIndicator';
+import { WebhookProfilePicker } from '@/components/WebhookProfilePicker';
+import { HashtagInput } from '@/components/HashtagInput';
+import { MediaDropZone } from '@/components/MediaDropZone';
+import { RejectedFilesList } from '@/components/RejectedFilesList';
+import { MediaGrid } from '@/components/MediaGrid';
+import { CropEditorDialog } from '@/components/CropEditorDialog';
+import { VideoCoverDialog } from '@/components/VideoCoverDialog';
 import { cn } from '@/lib/utils';
+import { isInFuture } from '@/lib/schedule';
+import { checkHashtag, joinHashtags, parseHashtags } from '@/lib/hashtags';
+import { captionVariantsSchema, resolveCaption } from '@/lib/caption-variants';
+import { measurePost } from '@/lib/platform-rules';
+import { PLATFORMS, getMediaLimit, getPlatforms, platformStyle } from '@/lib/platforms';
+import { ACCEPTED_MEDIA_TYPES, MEDIA_TYPE_LABELS, MediaItem, createMediaItem, getTransferFiles, moveItem, revokeMediaItem } from '@/lib/media';
+import { PlatformCrops } from '@/lib/image-crop';
+import { captureVideoFrame, checkVideoLimits, readVideoMetadata } from '@/lib/video';
+import { DEFAULT_IMAGE_PROCESSING, MAX_DIMENSION_OPTIONS, processImage } from '@/lib/image-processing';
+import { MediaValidationResult, validateMediaFiles } from '@/lib/media-validation';
+import { Draft, fromStoredMedia } from '@/lib/drafts';
+import { getInitialProfileId, setLastUsedProfileId } from '@/lib/webhook-profiles';
+import { EncodedPayload, PostFieldValues, buildPostFields } from '@/lib/webhook-payload';
+import { PostOutcome, createPostId, describeNetworkError, listPosts, recordPost, summarizeMedia } from '@/lib/posts';
+import { DuplicateSubmission, IdempotencyState, findDuplicateSubmission, hashPostContent, nextIdempotencyKey } from '@/lib/idempotency';
+import { loggedFetch } from '@/lib/delivery-log';
+import { describeEncodingError, encodePostForWebhook, enqueuePost, isOffline, isRetryable, sendPost } from '@/lib/outbox';
+import { DEFAULT_RECURRENCE, recurrenceSchema } from '@/lib/recurrence';
+import { formatInTimeZone, getBrowserTimeZone, zonedWallTimeToDate } from '@/lib/timezones';
 import { useToast } from '@/hooks/use-toast';
+import { useDrafts } from '@/hooks/use-drafts';
+import { useWebhookProfiles } from '@/hooks/use-webhook-profiles';
 
 const formSchema = z.object({
   postTitle: z.string().min(1, 'Post title is required').max(100, 'Post title must be under 100 characters'),
-  caption: z.string().min(1, 'Caption is required').max(2200, 'Caption must be under 2200 characters'),
+  caption: z.string().min(1, 'Caption is required'),
   hashtags: z.string().optional(),
   platforms: z.array(z.string()).min(1, 'Select at least one platform'),
   scheduledDate: z.date({
     required_error: 'Please select a date and time for posting',
   }),
-  webhookUrl: z.string().url('Please enter a valid webhook URL'),
+  timezone: z.string().min(1, 'Select a time zone'),
+  recurrence: recurrenceSchema,
+  variants: captionVariantsSchema,
+  webhookProfileId: z.string().min(1, 'Choose or add a webhook'),
+}).superRefine((data, ctx) => {
+  // Only overrides for platforms that are still selected have to be filled in
+  data.platforms.forEach((platformId) => {
+    const variant = data.variants[platformId];
+    if (variant?.override && !variant.caption.trim()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['variants', platformId, 'caption'],
+        message: 'Caption is required',
+      });
+    }
+  });
+  // Banned tags are only flagged in the input, but malformed ones would not link on any platform
+  const hashtagFields: { path: (string | number)[]; value?: string }[] = [
+    { path: ['hashtags'], value: data.hashtags },
+    ...data.platforms
+      .filter((platformId) => data.variants[platformId]?.override)
+      .map((platformId) => ({ path: ['variants', platformId, 'hashtags'], value: data.variants[platformId].hashtags })),
+  ];
+  hashtagFields.forEach(({ path, value }) => {
+    const malformed = parseHashtags(value || '').map(checkHashtag).filter(({ issue }) => issue && issue !== 'banned');
+    if (malformed.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path,
+        message: `Fix or remove ${malformed.map(({ tag }) => tag).join(', ')}`,
+      });
+    }
+  });
+  // Text limits depend on which platforms are selected and on any per-platform overrides
+  getPlatforms(data.platforms).forEach(({ id, label, rules }) => {
+    const content = resolveCaption({ caption: data.caption, hashtags: data.hashtags }, data.variants, id);
+    const usage = measurePost(rules, content, 0);
+    const fieldPath = (field: 'caption' | 'hashtags') => content.overridden ? ['variants', id, field] : [field];
+    if (usage.caption.over) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: fieldPath('caption'),
+        message: `${label} allows ${usage.caption.max.toLocaleString()} characters including hashtags (currently ${usage.caption.used.toLocaleString()})`,
+      });
+    }
+    if (usage.mentions.over) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: fieldPath('caption'),
+        message: `${label} allows ${usage.mentions.max} mentions (currently ${usage.mentions.used})`,
+      });
+    }
+    if (usage.hashtags.over) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: fieldPath('hashtags'),
+        message: `${label} allows ${usage.hashtags.max} hashtags (currently ${usage.hashtags.used})`,
+      });
+    }
+  });
+  // scheduledDate holds the wall-clock time in the chosen zone, so compare the real instant
+  if (data.scheduledDate && data.timezone && !isInFuture(zonedWallTimeToDate(data.scheduledDate, data.timezone))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['scheduledDate'],
+      message: 'Scheduled time must be in the future',
+    });
+  }
 });
 
 type FormData = z.infer<typeof formSchema>;
 
-const platforms = [
-  { id: 'facebook', name: 'Facebook', icon: Facebook, color: 'text-social-facebook', bgColor: 'bg-social-facebook/10', borderColor: 'border-social-facebook/30' },
-  { id: 'instagram', name: 'Instagram', icon: Instagram, color: 'text-social-instagram', bgColor: 'bg-social-instagram/10', borderColor: 'border-social-instagram/30' },
-  { id: 'linkedin', name: 'LinkedIn', icon: Linkedin, color: 'text-social-linkedin', bgColor: 'bg-social-linkedin/10', borderColor: 'border-social-linkedin/30' },
-];
+// Seconds into a video where the default cover frame is taken
+const DEFAULT_COVER_TIME = 1;
+
 
 export default function SocialMediaForm() {
-  const [uploadedImages, setUploadedImages] = useState<File[]>([]);
+  const [uploadedImages, setUploadedImages] = useState<MediaItem[]>([]);
+  const [maxDimension, setMaxDimension] = useState(DEFAULT_IMAGE_PROCESSING.maxDimension);
+  // Latest processing request per media id, so a slow earlier run cannot overwrite a newer one
+  const processingRuns = useRef(new Map<string, number>());
+  const [cropTargetId, setCropTargetId] = useState<string | null>(null);
+  const [coverTargetId, setCoverTargetId] = useState<string | null>(null);
+  const [rejectedFiles, setRejectedFiles] = useState<MediaValidationResult[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // A submission held back because it looks like one already delivered, until the user confirms
+  const [pendingDuplicate, setPendingDuplicate] = useState<{ data: FormData; duplicate: DuplicateSubmission } | null>(null);
+  const lastIdempotency = useRef<IdempotencyState>();
   const [showAIModal, setShowAIModal] = useState(false);
   const [aiPrompt, setAiPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const { toast } = useToast();
+  const {
+    drafts,
+    activeDraftId,
+    restoreCandidate,
+    scheduleSave,
+    openDraft,
+    startNewDraft,
+    removeDraft,
+    discardActiveDraft,
+    renameDraft,
+    dismissRestore,
+  } = useDrafts<FormData>();
+  const { profiles: webhookProfiles, saveProfile, removeProfile } = useWebhookProfiles();
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -51,30 +186,213 @@ export default function SocialMediaForm() {
       caption: '',
       hashtags: '',
       platforms: [],
-      webhookUrl: '',
+      timezone: getBrowserTimeZone(),
+      recurrence: DEFAULT_RECURRENCE,
+      variants: {},
+      webhookProfileId: getInitialProfileId(webhookProfiles),
     },
   });
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    const validFiles = files.filter(file => 
-      (file.type === 'image/jpeg' || file.type === 'image/png') && file.size <= 10 * 1024 * 1024
-    );
+  const localTimeZone = getBrowserTimeZone();
+  const watchedScheduledDate = form.watch('scheduledDate');
+  const watchedTimeZone = form.watch('timezone');
+  const watchedPlatforms = form.watch('platforms');
+  const selectedPlatforms = getPlatforms(watchedPlatforms);
+
+  const watchedCaption = form.watch('caption');
+  const watchedHashtags = form.watch('hashtags');
+  const watchedVariants = form.watch('variants');
+  const contentFor = (platformId: string) =>
+    resolveCaption({ caption: watchedCaption, hashtags: watchedHashtags }, watchedVariants, platformId);
 
-    if (validFiles.length + uploadedImages.length > 4) {
+  // Limits follow the platform selection, so re-check text fields once errors are being shown
+  const { isSubmitted } = form.formState;
+  useEffect(() => {
+    if (isSubmitted) {
+      form.trigger();
+    }
+  }, [watchedPlatforms, isSubmitted, form]);
+
+  // The calendar links here with the slot that was clicked, as a local wall-clock time
+  const [searchParams, setSearchParams] = useSearchParams();
+  useEffect(() => {
+    const slot = searchParams.get('scheduledAt');
+    if (!slot) return;
+    const date = parseISO(slot);
+    if (isValid(date)) {
+      form.setValue('timezone', getBrowserTimeZone());
+      form.setValue('scheduledDate', date, { shouldDirty: true });
+    }
+    setSearchParams((params) => {
+      params.delete('scheduledAt');
+      return params;
+    }, { replace: true });
+  }, [searchParams, setSearchParams, form]);
+
+  // Autosave on any field or media change; the media list is in the deps so the latest files are captured
+  useEffect(() => {
+    const save = () => {
+      const values = form.getValues();
+      if (!values.postTitle && !values.caption && !values.hashtags && uploadedImages.length === 0) return;
+      scheduleSave({ values, media: uploadedImages, maxDimension });
+    };
+    save();
+    const subscription = form.watch(save);
+    return () => subscription.unsubscribe();
+  }, [form, uploadedImages, maxDimension, scheduleSave]);
+
+  const mediaIssues = Object.fromEntries(uploadedImages.map(image => [
+    image.id,
+    selectedPlatforms.flatMap(platform => {
+      if (!platform.mediaTypes.includes(image.file.type)) {
+        return [`${platform.label}: ${MEDIA_TYPE_LABELS[image.file.type] ?? image.file.type} files are not supported`];
+      }
+      return image.video
+        ? checkVideoLimits(image.video, image.file.size, platform.rules.video).map(issue => `${platform.label}: ${issue}`)
+        : [];
+    }),
+  ]));
+  const scheduledInstant = watchedScheduledDate && watchedTimeZone
+    ? zonedWallTimeToDate(watchedScheduledDate, watchedTimeZone)
+    : undefined;
+
+  // Every upload path (picker, drop, paste) funnels through here so validation stays in one place
+  const addImages = (files: File[]) => {
+    const { accepted, rejected } = validateMediaFiles(files, uploadedImages.map(image => image.original), {
+      maxFiles: getMediaLimit(watchedPlatforms),
+    });
+    setRejectedFiles(rejected);
+
+    if (accepted.length > 0) {
+      const items = accepted.map(createMediaItem);
+      setUploadedImages(prev => [...prev, ...items]);
+      items.forEach(item => processMediaItem(item, maxDimension));
+    }
+
+    if (rejected.length > 0) {
       toast({
-        title: 'Too many images',
-        description: 'You can upload a maximum of 4 images.',
-        variant: 'destructive',
+        title: accepted.length > 0
+          ? `Added ${accepted.length} of ${files.length} files`
+          : 'No files were added',
+        description: rejected.length === 1
+          ? `${rejected[0].file.name}: ${rejected[0].reason}`
+          : 'See the list below the upload area for details.',
+        variant: accepted.length > 0 ? 'default' : 'destructive',
       });
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLFormElement>) => {
+    const files = getTransferFiles(e.clipboardData);
+    if (files.length === 0) return;
+    // Only swallow the paste when it carries files, so text still pastes into inputs
+    e.preventDefault();
+    addImages(files);
+  };
+
+  const processMediaItem = (item: MediaItem, dimension: number) => {
+    const run = (processingRuns.current.get(item.id) ?? 0) + 1;
+    processingRuns.current.set(item.id, run);
+    const update = (changes: Partial<MediaItem>) => {
+      if (processingRuns.current.get(item.id) !== run) return;
+      setUploadedImages(prev => prev.map(image => image.id === item.id ? { ...image, ...changes } : image));
+    };
+
+    if (item.kind === 'video') {
+      readVideoMetadata(item.original)
+        .then(async (video) => {
+          const time = Math.min(DEFAULT_COVER_TIME, video.duration / 2);
+          const coverFile = await captureVideoFrame(item.original, time);
+          update({ video, cover: { file: coverFile, previewUrl: URL.createObjectURL(coverFile), time }, status: 'ready' });
+        })
+        .catch((error) => {
+          console.error('Video processing error:', error);
+          update({ status: 'failed', error: error instanceof Error ? error.message : 'Could not read this video' });
+        });
       return;
     }
 
-    setUploadedImages(prev => [...prev, ...validFiles]);
+    processImage(item.original, { ...DEFAULT_IMAGE_PROCESSING, maxDimension: dimension })
+      .then(({ file }) => update({ file, status: 'ready' }))
+      .catch((error) => {
+        console.error('Image processing error:', error);
+        update({ file: item.original, status: 'failed' });
+      });
+  };
+
+  const handleMaxDimensionChange = (value: string) => {
+    const dimension = Number(value);
+    setMaxDimension(dimension);
+    const images = uploadedImages.filter(image => image.kind === 'image');
+    setUploadedImages(prev => prev.map(image => image.kind === 'image' ? { ...image, status: 'processing' } : image));
+    images.forEach(image => processMediaItem(image, dimension));
+  };
+
+  const removeImage = (id: string) => {
+    const removed = uploadedImages.find(image => image.id === id);
+    if (removed) revokeMediaItem(removed);
+    processingRuns.current.delete(id);
+    setUploadedImages(prev => prev.filter(image => image.id !== id));
+  };
+
+  const updateAltText = (id: string, altText: string) => {
+    setUploadedImages(prev => prev.map(image => image.id === id ? { ...image, altText } : image));
+  };
+
+  const saveCrops = (id: string, crops: PlatformCrops) => {
+    setUploadedImages(prev => prev.map(image => image.id === id ? { ...image, crops } : image));
+  };
+
+  const selectCover = async (id: string, time: number) => {
+    const image = uploadedImages.find(item => item.id === id);
+    if (!image) return;
+    try {
+      const coverFile = await captureVideoFrame(image.original, time);
+      if (image.cover) URL.revokeObjectURL(image.cover.previewUrl);
+      const cover = { file: coverFile, previewUrl: URL.createObjectURL(coverFile), time };
+      setUploadedImages(prev => prev.map(item => item.id === id ? { ...item, cover } : item));
+    } catch (error) {
+      console.error('Cover capture error:', error);
+      toast({
+        title: 'Could not capture that frame',
+        description: 'Try a different position in the video.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const clearImages = () => {
+    uploadedImages.forEach(revokeMediaItem);
+    processingRuns.current.clear();
+    setUploadedImages([]);
+  };
+
+  const loadDraft = (draft: Draft<FormData>) => {
+    openDraft(draft);
+    clearImages();
+    setRejectedFiles([]);
+    // Keep the blank defaults so a later reset after posting still clears the form
+    // Older drafts predate webhook profiles, so they keep whichever one is selected now
+    form.reset(
+      { ...draft.values, webhookProfileId: draft.values.webhookProfileId || form.getValues('webhookProfileId') },
+      { keepDefaultValues: true }
+    );
+    setMaxDimension(draft.maxDimension);
+    const items = draft.media.map(fromStoredMedia);
+    setUploadedImages(items);
+    // Processing was cut short when the draft was saved, so start it again
+    items.filter(item => item.status === 'processing').forEach(item => processMediaItem(item, draft.maxDimension));
   };
 
-  const removeImage = (index: number) => {
-    setUploadedImages(prev => prev.filter((_, i) => i !== index));
+  const handleNewDraft = () => {
+    startNewDraft();
+    form.reset({
+      ...form.formState.defaultValues,
+      timezone: form.getValues('timezone'),
+      webhookProfileId: form.getValues('webhookProfileId'),
+    });
+    clearImages();
+    setRejectedFiles([]);
   };
 
   const handleAIGenerate = async () => {
@@ -90,7 +408,7 @@ export default function SocialMediaForm() {
     setIsGenerating(true);
     
     try {
-      const response = await fetch('https://n8n-rksa.onrender.com/webhook/d02f08b1-5baf-403b-b8e9-beebf1962697', {
+      const response = await loggedFetch('ai-generate', 'https://n8n-rksa.onrender.com/webhook/d02f08b1-5baf-403b-b8e9-beebf1962697', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -98,7 +416,7 @@ export default function SocialMediaForm() {
         body: JSON.stringify({
           prompt: aiPrompt
         }),
-      });
+      }, aiPrompt);
 
       if (!response.ok) {
         throw new Error('Failed to generate content');
@@ -108,7 +426,7 @@ export default function SocialMediaForm() {
       
       // Update form fields with the response from n8n
       form.setValue('caption', data.caption || '');
-      form.setValue('hashtags', data.hashtags || '');
+      form.setValue('hashtags', joinHashtags(parseHashtags(data.hashtags || '')));
       
       toast({
         title: 'Content generated successfully!',
@@ -129,41 +447,128 @@ export default function SocialMediaForm() {
     }
   };
 
-  const onSubmit = async (data: FormData) => {
+  const submitPost = async (data: FormData, allowDuplicate = false) => {
+    if (uploadedImages.some(image => image.status === 'processing')) {
+      toast({
+        title: 'Media is still being processed',
+        description: 'Give it a moment and submit again.',
+      });
+      return;
+    }
+
+    const needsMedia = selectedPlatforms.find(platform => platform.rules.requiresMedia && uploadedImages.length === 0);
+    if (needsMedia) {
+      toast({
+        title: 'Media required',
+        description: `${needsMedia.label} posts need at least one image or video.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const overMediaLimit = selectedPlatforms.find(platform => uploadedImages.length > platform.rules.mediaMax);
+    if (overMediaLimit) {
+      toast({
+        title: 'Too many media files',
+        description: `${overMediaLimit.label} allows ${overMediaLimit.rules.mediaMax} per post.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const platformMediaIssues = Object.values(mediaIssues).flat();
+    if (platformMediaIssues.length > 0) {
+      toast({
+        title: 'Media does not meet platform limits',
+        description: platformMediaIssues[0],
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const webhook = webhookProfiles.find((profile) => profile.id === data.webhookProfileId);
+    if (!webhook) {
+      form.setError('webhookProfileId', { message: 'This webhook was deleted. Choose another one.' });
+      return;
+    }
+    setLastUsedProfileId(webhook.id);
+
     setIsSubmitting(true);
     
     try {
-      const formData = new FormData();
-      
-      // Add form data
-      formData.append('postTitle', data.postTitle);
-      formData.append('caption', data.caption);
-      formData.append('hashtags', data.hashtags || '');
-      formData.append('platforms', JSON.stringify(data.platforms));
-      formData.append('scheduledDate', data.scheduledDate.toISOString());
-      
-      // Add images
-      uploadedImages.forEach((image, index) => {
-        formData.append(`image_${index}`, image);
+      const draftFields = buildPostFields(data as PostFieldValues, {
+        // Lets later events, such as a reschedule from the calendar, refer back to this submission
+        postId: createPostId(),
+        idempotencyKey: activeDraftId,
       });
+      const contentHash = await hashPostContent(draftFields, uploadedImages);
+      const idempotency = nextIdempotencyKey(lastIdempotency.current, activeDraftId, contentHash, { resend: allowDuplicate });
+      if (!allowDuplicate) {
+        const history = await listPosts().catch((error) => {
+          console.error('Could not read post history:', error);
+          return [];
+        });
+        const duplicate = findDuplicateSubmission(history, { idempotencyKey: idempotency.key, contentHash });
+        if (duplicate) {
+          setPendingDuplicate({ data, duplicate });
+          return;
+        }
+      }
+      lastIdempotency.current = idempotency;
+      const fields = { ...draftFields, idempotencyKey: idempotency.key };
 
-      const response = await fetch(data.webhookUrl, {
-        method: 'POST',
-        body: formData,
-      });
+      const postDetails = {
+        id: fields.postId,
+        title: data.postTitle,
+        caption: data.caption,
+        platforms: fields.platforms,
+        scheduledAt: fields.scheduledDate,
+        timezone: data.timezone,
+        recurrenceRule: fields.recurrenceRule,
+        webhookUrl: webhook.url,
+        webhookProfileId: webhook.id,
+        idempotencyKey: idempotency.key,
+        contentHash,
+      };
+      const mediaSummary = await summarizeMedia(uploadedImages);
+      // Offline there is no point trying, not even to upload media; the outbox encodes and sends
+      // the post once the connection is back
+      let payload: EncodedPayload | undefined;
+      let outcome: PostOutcome;
+      if (isOffline()) {
+        outcome = describeNetworkError(new Error('Offline when submitted'));
+      } else {
+        try {
+          payload = await encodePostForWebhook(webhook, fields, uploadedImages);
+          outcome = await sendPost(postDetails, payload.body, payload.headers);
+        } catch (error) {
+          outcome = describeEncodingError(error);
+        }
+      }
+      await recordPost(postDetails, outcome, mediaSummary);
 
-      if (response.ok) {
+      if (outcome.status === 'success') {
         toast({
           title: 'Content submitted successfully!',
           description: 'Your social media post has been queued for automation.',
         });
-        
-        // Reset form
-        form.reset();
-        setUploadedImages([]);
+      } else if (isRetryable(outcome)) {
+        await enqueuePost(postDetails, mediaSummary, payload ?? { fields, media: uploadedImages }, outcome);
+        toast({
+          title: 'Saved to the outbox',
+          description: isOffline()
+            ? 'You are offline. The post will be sent when the connection is back.'
+            : 'The webhook could not be reached. The post will be retried automatically.',
+        });
       } else {
-        throw new Error('Failed to submit');
+        throw new Error(`The webhook responded with ${outcome.httpStatus}`);
       }
+
+      // Reset form, keeping the chosen zone for the next post
+      await discardActiveDraft();
+      form.reset({ ...form.formState.defaultValues, timezone: data.timezone, webhookProfileId: data.webhookProfileId });
+      clearImages();
+      setRejectedFiles([]);
     } catch (error) {
       console.error('Submission error:', error);
       toast({
@@ -176,6 +581,16 @@ export default function SocialMediaForm() {
     }
   };
 
+  const onSubmit = (data: FormData) => submitPost(data);
+
+  const confirmDuplicate = () => {
+    if (!pendingDuplicate) return;
+    setPendingDuplicate(null);
+    submitPost(pendingDuplicate.data, true);
+  };
+
+  const duplicatePost = pendingDuplicate?.duplicate.post;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 relative overflow-hidden">
       {/* Background decoration */}
@@ -184,7 +599,7 @@ export default function SocialMediaForm() {
         <div className="absolute bottom-10 right-10 w-96 h-96 bg-primary-glow/5 rounded-full blur-3xl animate-float" style={{ animationDelay: '1s' }}></div>
       </div>
       
-      <div className="relative max-w-5xl mx-auto p-6 pt-12">
+      <div className="relative max-w-7xl mx-auto p-6 pt-12">
         {/* Header */}
         <div className="text-center mb-12 animate-fade-in">
           <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 border border-primary/20 mb-6">
@@ -200,6 +615,43 @@ export default function SocialMediaForm() {
           </p>
         </div>
 
+        <div className="flex justify-end gap-2 mb-4">
+          <OutboxIndicator />
+          <Button asChild variant="outline" className="gap-2 bg-background/50">
+            <Link to="/calendar">
+              <CalendarDays className="h-4 w-4" />
+              Calendar
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="gap-2 bg-background/50">
+            <Link to="/posts">
+              <History className="h-4 w-4" />
+              History
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="gap-2 bg-background/50">
+            <Link to="/logs">
+              <ScrollText className="h-4 w-4" />
+              Logs
+            </Link>
+          </Button>
+          <DraftsDrawer
+            drafts={drafts}
+            activeDraftId={activeDraftId}
+            onOpen={loadDraft}
+            onRename={renameDraft}
+            onDelete={removeDraft}
+            onNew={handleNewDraft}
+          />
+        </div>
+
+        <DraftRestoreBanner
+          draft={restoreCandidate}
+          onRestore={() => loadDraft(restoreCandidate)}
+          onDismiss={dismissRestore}
+        />
+
+        <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_380px] gap-8 items-start">
         {/* Main Card */}
         <Card className="backdrop-blur-xl bg-card/80 border-0 shadow-2xl shadow-primary/5 animate-slide-up">
           <CardHeader className="text-center pb-8">
@@ -233,7 +685,7 @@ export default function SocialMediaForm() {
             </div>
 
             <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+              <form onSubmit={form.handleSubmit(onSubmit)} onPaste={handlePaste} className="space-y-8">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                   {/* Left Column */}
                   <div className="space-y-8">
@@ -262,52 +714,59 @@ export default function SocialMediaForm() {
                       )}
                     />
 
-                    {/* Caption */}
-                    <FormField
-                      control={form.control}
-                      name="caption"
-                      render={({ field }) => (
-                        <FormItem className="space-y-3">
-                          <FormLabel className="text-lg font-semibold text-foreground">
-                            Caption
-                          </FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Write your engaging post content here... Tell your story, share insights, or inspire your audience!"
-                              className="min-h-40 text-base bg-background/50 border-border/50 focus:border-primary/50 transition-all duration-300 resize-none"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription className="text-base">
-                            Your main message ({field.value?.length || 0}/2200 characters)
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <CaptionVariantsEditor platforms={selectedPlatforms}>
+                      {/* Caption */}
+                      <FormField
+                        control={form.control}
+                        name="caption"
+                        render={({ field }) => (
+                          <FormItem className="space-y-3">
+                            <FormLabel className="text-lg font-semibold text-foreground">
+                              Caption
+                            </FormLabel>
+                            <FormControl>
+                              <Textarea 
+                                placeholder="Write your engaging post content here... Tell your story, share insights, or inspire your audience!"
+                                className="min-h-40 text-base bg-background/50 border-border/50 focus:border-primary/50 transition-all duration-300 resize-none"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormDescription className="text-base">
+                              Your main message ({field.value?.length || 0} characters)
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    {/* Hashtags */}
-                    <FormField
-                      control={form.control}
-                      name="hashtags"
-                      render={({ field }) => (
-                        <FormItem className="space-y-3">
-                          <FormLabel className="text-lg font-semibold text-foreground">
-                            Hashtags
-                          </FormLabel>
-                          <FormControl>
-                            <Input 
-                              placeholder="#marketing #socialmedia #automation #growth #business"
-                              className="h-14 text-base bg-background/50 border-border/50 focus:border-primary/50 transition-all duration-300"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription className="text-base">
-                            Add relevant hashtags to increase discoverability
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
+                      {/* Hashtags */}
+                      <FormField
+                        control={form.control}
+                        name="hashtags"
+                        render={({ field }) => (
+                          <FormItem className="space-y-3">
+                            <FormLabel className="text-lg font-semibold text-foreground">
+                              Hashtags
+                            </FormLabel>
+                            <FormControl>
+                              <HashtagInput
+                                placeholder="#marketing #socialmedia #automation #growth #business"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormDescription className="text-base">
+                              Press space, comma or Enter to add a tag, or paste a list
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </CaptionVariantsEditor>
+
+                    <PlatformUsageMeter
+                      platforms={selectedPlatforms}
+                      contentFor={contentFor}
+                      mediaCount={uploadedImages.length}
                     />
                   </div>
 
@@ -322,22 +781,24 @@ export default function SocialMediaForm() {
                           <FormLabel className="text-lg font-semibold text-foreground">
                             Target Platforms
                           </FormLabel>
-                          <div className="grid gap-4">
-                            {platforms.map((platform) => (
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {PLATFORMS.map((platform) => (
                               <FormField
                                 key={platform.id}
                                 control={form.control}
                                 name="platforms"
                                 render={({ field }) => {
-                                  const IconComponent = platform.icon;
                                   const isSelected = field.value?.includes(platform.id);
                                   return (
-                                    <div className={cn(
-                                      "relative p-4 rounded-xl border-2 transition-all duration-300 cursor-pointer group",
-                                      isSelected 
-                                        ? `${platform.bgColor} ${platform.borderColor} shadow-lg scale-[1.02]`
-                                        : "bg-background/30 border-border/30 hover:border-primary/30 hover:bg-background/50"
-                                    )}>
+                                    <div
+                                      className={cn(
+                                        "relative p-4 rounded-xl border-2 transition-all duration-300 cursor-pointer group",
+                                        isSelected
+                                          ? "bg-platform/10 border-platform/30 shadow-lg scale-[1.02]"
+                                          : "bg-background/30 border-border/30 hover:border-primary/30 hover:bg-background/50"
+                                      )}
+                                      style={platformStyle(platform)}
+                                    >
                                       <FormItem className="flex flex-row items-center space-x-4 space-y-0">
                                         <FormControl>
                                           <Checkbox
@@ -353,8 +814,8 @@ export default function SocialMediaForm() {
                                           />
                                         </FormControl>
                                         <FormLabel className="flex items-center space-x-3 cursor-pointer flex-1">
-                                          <IconComponent className={cn("h-6 w-6", platform.color)} />
-                                          <span className="text-base font-medium">{platform.name}</span>
+                                          <PlatformIcon platform={platform} className="h-6 w-6" />
+                                          <span className="text-base font-medium">{platform.label}</span>
                                         </FormLabel>
                                       </FormItem>
                                       {isSelected && (
@@ -383,41 +844,14 @@ export default function SocialMediaForm() {
                             <Clock className="h-5 w-5 text-primary" />
                             Schedule Date & Time
                           </FormLabel>
-                          <Popover>
-                            <PopoverTrigger asChild>
-                              <FormControl>
-                                <Button
-                                  variant="outline"
-                                  className={cn(
-                                    "w-full h-14 pl-4 text-left font-normal bg-background/50 border-border/50 hover:border-primary/50 transition-all duration-300",
-                                    !field.value && "text-muted-foreground"
-                                  )}
-                                >
-                                  {field.value ? (
-                                    <div className="flex items-center gap-3">
-                                      <CalendarIcon className="h-5 w-5 text-primary" />
-                                      <span className="text-base">{format(field.value, "PPP 'at' p")}</span>
-                                    </div>
-                                  ) : (
-                                    <div className="flex items-center gap-3">
-                                      <CalendarIcon className="h-5 w-5 text-muted-foreground" />
-                                      <span>Select date and time</span>
-                                    </div>
-                                  )}
-                                </Button>
-                              </FormControl>
-                            </PopoverTrigger>
-                            <PopoverContent className="w-auto p-0 bg-card/95 backdrop-blur-xl border-primary/20" align="start">
-                              <Calendar
-                                mode="single"
-                                selected={field.value}
-                                onSelect={field.onChange}
-                                disabled={(date) => date < new Date()}
-                                initialFocus
-                                className="p-4 pointer-events-auto"
-                              />
-                            </PopoverContent>
-                          </Popover>
+                          <FormControl>
+                            <DateTimePicker
+                              value={field.value}
+                              onChange={field.onChange}
+                              defaultMinuteStep={5}
+                              timeZone={watchedTimeZone}
+                            />
+                          </FormControl>
                           <FormDescription className="text-base">
                             Choose when your content should go live
                           </FormDescription>
@@ -425,80 +859,109 @@ export default function SocialMediaForm() {
                         </FormItem>
                       )}
                     />
+
+                    {/* Recurrence */}
+                    <RecurrenceBuilder />
+
+                    {/* Target Time Zone */}
+                    <FormField
+                      control={form.control}
+                      name="timezone"
+                      render={({ field }) => (
+                        <FormItem className="space-y-3">
+                          <FormLabel className="text-lg font-semibold text-foreground">
+                            Time Zone
+                          </FormLabel>
+                          <FormControl>
+                            <TimeZoneSelect value={field.value} onChange={field.onChange} />
+                          </FormControl>
+                          {scheduledInstant ? (
+                            <div className="rounded-lg border border-border/50 bg-background/30 p-3 text-sm space-y-1">
+                              <p>
+                                <span className="font-medium text-foreground">{formatInTimeZone(scheduledInstant, field.value)}</span>
+                                <span className="text-muted-foreground"> in {field.value.replace(/_/g, ' ')}</span>
+                              </p>
+                              {field.value !== localTimeZone && (
+                                <p>
+                                  <span className="font-medium text-foreground">{formatInTimeZone(scheduledInstant, localTimeZone)}</span>
+                                  <span className="text-muted-foreground"> your time ({localTimeZone.replace(/_/g, ' ')})</span>
+                                </p>
+                              )}
+                            </div>
+                          ) : (
+                            <FormDescription className="text-base">
+                              The schedule above is read as local time in this zone
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </div>
 
                 {/* Media Upload Section */}
                 <div className="space-y-6 pt-4">
-                  <FormLabel className="text-lg font-semibold text-foreground">
-                    Media Assets
-                  </FormLabel>
-                  
-                  <div className="relative">
-                    <input
-                      type="file"
-                      multiple
-                      accept="image/jpeg,image/png"
-                      onChange={handleImageUpload}
-                      className="hidden"
-                      id="image-upload"
-                    />
-                    <label 
-                      htmlFor="image-upload" 
-                      className="flex flex-col items-center justify-center p-12 border-2 border-dashed border-primary/30 rounded-2xl bg-gradient-to-br from-primary/5 to-primary-glow/5 hover:from-primary/10 hover:to-primary-glow/10 transition-all duration-300 cursor-pointer group"
-                    >
-                      <Upload className="h-16 w-16 text-primary mb-4 group-hover:scale-110 transition-transform duration-300" />
-                      <h3 className="text-xl font-semibold text-foreground mb-2">Upload Visual Content</h3>
-                      <p className="text-base text-muted-foreground text-center">
-                        Drag & drop images here or click to browse<br />
-                        <span className="text-sm">Supports JPG, PNG • Max 4 files • 10MB each</span>
-                      </p>
-                    </label>
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <FormLabel className="text-lg font-semibold text-foreground">
+                      Media Assets
+                    </FormLabel>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <span>Resize to</span>
+                      <Select value={String(maxDimension)} onValueChange={handleMaxDimensionChange}>
+                        <SelectTrigger className="w-28 h-9" aria-label="Maximum image dimension">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MAX_DIMENSION_OPTIONS.map((dimension) => (
+                            <SelectItem key={dimension} value={String(dimension)}>
+                              {dimension}px
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
+                  
+                  <MediaDropZone
+                    accept={ACCEPTED_MEDIA_TYPES.join(',')}
+                    onFiles={addImages}
+                    hint={`Supports JPG, PNG, MP4, MOV • Max ${getMediaLimit(watchedPlatforms)} files • Images 10MB, videos 1GB`}
+                  />
+
+                  <RejectedFilesList rejected={rejectedFiles} onDismiss={() => setRejectedFiles([])} />
 
                   {/* Uploaded Images Preview */}
                   {uploadedImages.length > 0 && (
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-6 animate-scale-in">
-                      {uploadedImages.map((image, index) => (
-                        <div key={index} className="relative group">
-                          <div className="relative overflow-hidden rounded-xl border-2 border-border/30 bg-background/30 p-2">
-                            <img
-                              src={URL.createObjectURL(image)}
-                              alt={`Upload ${index + 1}`}
-                              className="w-full h-32 object-cover rounded-lg"
-                            />
-                            <Button
-                              type="button"
-                              variant="destructive"
-                              size="icon"
-                              className="absolute -top-2 -right-2 h-8 w-8 opacity-0 group-hover:opacity-100 transition-all duration-300 shadow-lg"
-                              onClick={() => removeImage(index)}
-                            >
-                              <X className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
+                    <MediaGrid
+                      items={uploadedImages}
+                      issues={mediaIssues}
+                      canCrop={selectedPlatforms.length > 0}
+                      onMove={(from, to) => setUploadedImages(prev => moveItem(prev, from, to))}
+                      onRemove={removeImage}
+                      onCrop={setCropTargetId}
+                      onPickCover={setCoverTargetId}
+                      onAltTextChange={updateAltText}
+                    />
                   )}
                 </div>
 
-                {/* Webhook URL */}
+                {/* Webhook */}
                 <FormField
                   control={form.control}
-                  name="webhookUrl"
+                  name="webhookProfileId"
                   render={({ field }) => (
                     <FormItem className="space-y-3">
                       <FormLabel className="text-lg font-semibold text-foreground">
-                        Automation Webhook URL
+                        Automation Webhook
                       </FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="https://your-automation-service.com/webhook"
-                          className="h-14 text-base bg-background/50 border-border/50 focus:border-primary/50 transition-all duration-300"
-                          {...field}
-                        />
-                      </FormControl>
+                      <WebhookProfilePicker
+                        value={field.value}
+                        onChange={field.onChange}
+                        profiles={webhookProfiles}
+                        onSaveProfile={saveProfile}
+                        onRemoveProfile={removeProfile}
+                      />
                       <FormDescription className="text-base">
                         The endpoint where your automation service (n8n, Zapier, Make) will receive the data
                       </FormDescription>
@@ -532,8 +995,50 @@ export default function SocialMediaForm() {
             </Form>
           </CardContent>
         </Card>
+
+        {/* Live Preview */}
+        <aside className="xl:sticky xl:top-6">
+          <PostPreviewPanel
+            platforms={selectedPlatforms}
+            contentFor={contentFor}
+            media={uploadedImages}
+            scheduledAt={watchedScheduledDate}
+          />
+        </aside>
+        </div>
       </div>
 
+      <CropEditorDialog
+        item={uploadedImages.find(image => image.id === cropTargetId) ?? null}
+        platforms={selectedPlatforms}
+        onOpenChange={(open) => !open && setCropTargetId(null)}
+        onSave={saveCrops}
+      />
+
+      <VideoCoverDialog
+        item={uploadedImages.find(image => image.id === coverTargetId) ?? null}
+        onOpenChange={(open) => !open && setCoverTargetId(null)}
+        onSelect={selectCover}
+      />
+
+      <AlertDialog open={!!pendingDuplicate} onOpenChange={(open) => !open && setPendingDuplicate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send this post again?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {duplicatePost && (pendingDuplicate.duplicate.match === 'key'
+                ? `This draft was already delivered as "${duplicatePost.title}" ${formatDistanceToNow(duplicatePost.submittedAt, { addSuffix: true })}.`
+                : `"${duplicatePost.title}" with the same content, schedule and media was delivered ${formatDistanceToNow(duplicatePost.submittedAt, { addSuffix: true })}.`)}
+              {' '}Sending it again may publish it twice.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDuplicate}>Send anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* AI Generate Modal */}
       <Dialog open={showAIModal} onOpenChange={setShowAIModal}>
         <DialogContent className="sm:max-w-md bg-card/95 backdrop-blur-xl border-primary/20">
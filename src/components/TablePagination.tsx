@@ -0,0 +1,63 @@
+import React from 'react';
+
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+import { getPageRange } from '@/lib/pagination';
+
+interface TablePaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+export function TablePagination({ page, pageCount, onPageChange }: TablePaginationProps) {
+  if (pageCount <= 1) return null;
+
+  // The links are anchors without a destination, so keep clicks from jumping the page
+  const go = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount) onPageChange(target);
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={go(page - 1)}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+        {getPageRange(page, pageCount).map((item, index) => (
+          <PaginationItem key={item === 'ellipsis' ? `ellipsis-${index}` : item}>
+            {item === 'ellipsis' ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={item === page} onClick={go(item)}>
+                {item}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={go(page + 1)}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
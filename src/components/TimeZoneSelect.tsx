@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { Check, ChevronsUpDown, Globe } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+import { getSupportedTimeZones, getTimeZoneLabel } from '@/lib/timezones';
+
+interface TimeZoneSelectProps extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const TimeZoneSelect = React.forwardRef<HTMLButtonElement, TimeZoneSelectProps>(
+  ({ value, onChange, className, ...props }, ref) => {
+    const [open, setOpen] = useState(false);
+    const options = useMemo(
+      () => getSupportedTimeZones().map((zone) => ({ zone, label: getTimeZoneLabel(zone) })),
+      []
+    );
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn(
+              "w-full h-14 justify-between pl-4 font-normal bg-background/50 border-border/50 hover:border-primary/50 transition-all duration-300",
+              className
+            )}
+            {...props}
+          >
+            <span className="flex items-center gap-3 truncate">
+              <Globe className="h-5 w-5 text-primary" />
+              <span className="text-base truncate">{value ? getTimeZoneLabel(value) : 'Select time zone'}</span>
+            </span>
+            <ChevronsUpDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0 bg-card/95 backdrop-blur-xl border-primary/20" align="start">
+          <Command>
+            <CommandInput placeholder="Search time zones..." />
+            <CommandList>
+              <CommandEmpty>No time zone found.</CommandEmpty>
+              {options.map(({ zone, label }) => (
+                <CommandItem
+                  key={zone}
+                  value={label}
+                  onSelect={() => {
+                    onChange(zone);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value === zone ? "opacity-100" : "opacity-0")} />
+                  {label}
+                </CommandItem>
+              ))}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+);
+TimeZoneSelect.displayName = 'TimeZoneSelect';
+
+export { TimeZoneSelect };
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Film, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import { MediaItem } from '@/lib/media';
+import { formatDuration } from '@/lib/video';
+
+interface VideoCoverDialogProps {
+  item: MediaItem | null;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (id: string, time: number) => Promise<void>;
+}
+
+function CoverPicker({ item, onSelect, onCancel }: {
+  item: MediaItem;
+  onSelect: (time: number) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [time, setTime] = useState(item.cover?.time ?? 0);
+  const [video, setVideo] = useState<HTMLVideoElement | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const duration = item.video?.duration ?? 0;
+
+  const handleTimeChange = (next: number) => {
+    setTime(next);
+    if (video) video.currentTime = next;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSelect(time);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <video
+          ref={setVideo}
+          src={item.previewUrl}
+          muted
+          playsInline
+          preload="auto"
+          onLoadedMetadata={(e) => {
+            e.currentTarget.currentTime = time;
+          }}
+          className="w-full max-h-[50vh] rounded-lg bg-black"
+        />
+        <div className="flex items-center gap-4">
+          <Slider
+            min={0}
+            max={duration}
+            step={Math.max(duration / 200, 0.04)}
+            value={[time]}
+            onValueChange={([next]) => handleTimeChange(next)}
+            aria-label="Cover frame position"
+          />
+          <span className="text-sm text-muted-foreground tabular-nums w-14 text-right">{formatDuration(time)}</span>
+        </div>
+      </div>
+      <DialogFooter className="gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+          Use this frame
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export function VideoCoverDialog({ item, onOpenChange, onSelect }: VideoCoverDialogProps) {
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl bg-card/95 backdrop-blur-xl border-primary/20">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl font-semibold">
+            <Film className="h-6 w-6 text-primary" />
+            Choose a cover frame
+          </DialogTitle>
+          <DialogDescription className="text-base text-muted-foreground">
+            Scrub to the frame that should appear as the video thumbnail.
+          </DialogDescription>
+        </DialogHeader>
+        {item && (
+          <CoverPicker
+            key={item.id}
+            item={item}
+            onCancel={() => onOpenChange(false)}
+            onSelect={async (time) => {
+              await onSelect(item.id, time);
+              onOpenChange(false);
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
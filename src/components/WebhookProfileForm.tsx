@@ -0,0 +1,224 @@
+import React from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { PayloadMappingEditor } from '@/components/PayloadMappingEditor';
+import { WebhookRequestPreview } from '@/components/WebhookRequestPreview';
+import { PAYLOAD_FORMATS, PAYLOAD_FORMAT_OPTIONS } from '@/lib/webhook-payload';
+import { EMPTY_WEBHOOK_PROFILE, WebhookProfileInput, webhookProfileSchema } from '@/lib/webhook-profiles';
+
+interface WebhookProfileFormProps {
+  initialValues?: WebhookProfileInput;
+  submitLabel: string;
+  onSave: (values: WebhookProfileInput) => void;
+  onCancel?: () => void;
+}
+
+// Rendered inside the composer, so this is a plain container rather than a nested <form>
+export function WebhookProfileForm({ initialValues = EMPTY_WEBHOOK_PROFILE, submitLabel, onSave, onCancel }: WebhookProfileFormProps) {
+  const form = useForm<WebhookProfileInput>({
+    resolver: zodResolver(webhookProfileSchema),
+    defaultValues: initialValues,
+  });
+  const headers = useFieldArray({ control: form.control, name: 'headers' });
+  const payloadFormat = form.watch('payloadFormat');
+
+  const save = form.handleSubmit(onSave);
+
+  // Enter would otherwise submit the surrounding post form
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && e.target instanceof HTMLInputElement) {
+      e.preventDefault();
+      save();
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <div className="space-y-4 rounded-xl border border-border/50 bg-background/30 p-4" onKeyDown={handleKeyDown}>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Production n8n" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="url"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>URL</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://your-automation-service.com/webhook" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input placeholder="What this workflow does with the post" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="payloadFormat"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Payload format</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {PAYLOAD_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>{PAYLOAD_FORMAT_OPTIONS[format].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>{PAYLOAD_FORMAT_OPTIONS[field.value].description}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {payloadFormat === 'json-urls' && (
+          <FormField
+            control={form.control}
+            name="mediaUploadUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Media upload URL</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://your-storage.com/upload" {...field} />
+                </FormControl>
+                <FormDescription>
+                  Each file is POSTed here as a multipart <code>file</code> part, and the endpoint must answer with JSON <code>{'{ "url": "…" }'}</code>.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <PayloadMappingEditor form={form} />
+
+        <FormField
+          control={form.control}
+          name="secret"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Signing secret</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="off" placeholder="Optional" {...field} />
+              </FormControl>
+              <FormDescription>
+                Requests are signed with HMAC-SHA256 and sent with X-Signature and X-Timestamp headers.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Custom headers</p>
+          {headers.fields.map((header, index) => (
+            <div key={header.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`headers.${index}.name`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="Authorization" aria-label="Header name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`headers.${index}.value`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="Bearer …" aria-label="Header value" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => headers.remove(index)}
+                aria-label="Remove header"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => headers.append({ name: '', value: '' })}>
+            <Plus className="h-4 w-4" />
+            Add header
+          </Button>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isDefault"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between gap-4 space-y-0">
+              <div>
+                <FormLabel>Use by default</FormLabel>
+                <FormDescription>Selected for new posts until you pick another webhook.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <WebhookRequestPreview profile={form.watch()} />
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="button" onClick={save}>
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </Form>
+  );
+}
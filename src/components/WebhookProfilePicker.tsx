@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { FlaskConical, Pencil, Plus, Settings2, ShieldCheck, Star, Trash2, Webhook } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FormControl } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WebhookProfileForm } from '@/components/WebhookProfileForm';
+import { WebhookTestDialog } from '@/components/WebhookTestDialog';
+import { PAYLOAD_FORMAT_OPTIONS } from '@/lib/webhook-payload';
+import { MAPPING_PRESETS } from '@/lib/payload-mapping';
+import { EMPTY_WEBHOOK_PROFILE, WebhookProfile, WebhookProfileInput, describeWebhookUrl } from '@/lib/webhook-profiles';
+
+// Select value for the "add" entry; never a real profile id
+const ADD_PROFILE = '__add__';
+
+interface WebhookProfilePickerProps {
+  value: string;
+  onChange: (id: string) => void;
+  profiles: WebhookProfile[];
+  onSaveProfile: (input: WebhookProfileInput, id?: string) => WebhookProfile;
+  onRemoveProfile: (id: string) => void;
+}
+
+function ProfileManager({ profiles, onSaveProfile, onRemoveProfile }: Pick<WebhookProfilePickerProps, 'profiles' | 'onSaveProfile' | 'onRemoveProfile'>) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  if (profiles.length === 0) {
+    return <p className="text-sm text-muted-foreground">No webhooks saved yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {profiles.map((profile) => (
+        <li key={profile.id} className="rounded-xl border border-border/50 p-3 space-y-2">
+          {editingId === profile.id ? (
+            <WebhookProfileForm
+              initialValues={{ ...EMPTY_WEBHOOK_PROFILE, ...profile }}
+              submitLabel="Save changes"
+              onSave={(values) => {
+                onSaveProfile(values, profile.id);
+                setEditingId(null);
+              }}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="flex items-center gap-2 font-medium">
+                    {profile.name}
+                    {profile.isDefault && <Badge variant="secondary">Default</Badge>}
+                    {profile.secret && (
+                      <Badge variant="outline" className="gap-1">
+                        <ShieldCheck className="h-3 w-3" />
+                        Signed
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="truncate font-mono text-xs text-muted-foreground" title={profile.url}>{profile.url}</p>
+                  {profile.description && <p className="text-sm text-muted-foreground">{profile.description}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {PAYLOAD_FORMAT_OPTIONS[profile.payloadFormat].label} · {MAPPING_PRESETS[profile.mapping.preset].label}
+                  </p>
+                  {profile.headers.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Headers: {profile.headers.map(({ name }) => name).join(', ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                {!profile.isDefault && (
+                  <Button type="button" size="sm" variant="ghost" className="gap-1" onClick={() => onSaveProfile({ ...profile, isDefault: true }, profile.id)}>
+                    <Star className="h-3.5 w-3.5" />
+                    Make default
+                  </Button>
+                )}
+                <Button type="button" size="sm" variant="ghost" className="gap-1" onClick={() => setEditingId(profile.id)}>
+                  <Pencil className="h-3.5 w-3.5" />
+                  Edit
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto text-destructive hover:text-destructive"
+                  onClick={() => onRemoveProfile(profile.id)}
+                  aria-label={`Delete ${profile.name}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function WebhookProfilePicker({ value, onChange, profiles, onSaveProfile, onRemoveProfile }: WebhookProfilePickerProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const selected = profiles.find(({ id }) => id === value);
+  // With nothing saved yet the add form is the only useful thing to show
+  const showAddForm = isAdding || profiles.length === 0;
+
+  const handleSelect = (id: string) => {
+    if (id === ADD_PROFILE) {
+      setIsAdding(true);
+    } else {
+      onChange(id);
+    }
+  };
+
+  const handleAdd = (input: WebhookProfileInput) => {
+    const profile = onSaveProfile(input);
+    onChange(profile.id);
+    setIsAdding(false);
+  };
+
+  const handleRemove = (id: string) => {
+    onRemoveProfile(id);
+    if (id === value) {
+      const remaining = profiles.filter((profile) => profile.id !== id);
+      onChange((remaining.find(({ isDefault }) => isDefault) ?? remaining[0])?.id ?? '');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {profiles.length > 0 && (
+        <div className="flex gap-2">
+          <Select value={selected ? value : ''} onValueChange={handleSelect}>
+            <FormControl>
+              <SelectTrigger className="h-14 text-base bg-background/50 border-border/50 focus:border-primary/50 transition-all duration-300">
+                <SelectValue placeholder="Choose a webhook" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  <span className="flex items-center gap-2">
+                    <Webhook className="h-4 w-4 text-primary" />
+                    <span className="font-medium">{profile.name}</span>
+                    <span className="text-muted-foreground text-sm">{describeWebhookUrl(profile.url)}</span>
+                  </span>
+                </SelectItem>
+              ))}
+              <SelectSeparator />
+              <SelectItem value={ADD_PROFILE}>
+                <span className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add new webhook…
+                </span>
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            className="h-14 shrink-0 gap-2 bg-background/50"
+            disabled={!selected}
+            onClick={() => setIsTesting(true)}
+          >
+            <FlaskConical className="h-5 w-5" />
+            Test webhook
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="h-14 w-14 shrink-0 bg-background/50"
+            onClick={() => setIsManaging(true)}
+            aria-label="Manage webhooks"
+          >
+            <Settings2 className="h-5 w-5" />
+          </Button>
+        </div>
+      )}
+
+      {selected && !showAddForm && selected.description && (
+        <p className="text-sm text-muted-foreground">{selected.description}</p>
+      )}
+
+      {showAddForm && (
+        <WebhookProfileForm
+          initialValues={{ ...EMPTY_WEBHOOK_PROFILE, isDefault: profiles.length === 0 }}
+          submitLabel="Save webhook"
+          onSave={handleAdd}
+          onCancel={profiles.length > 0 ? () => setIsAdding(false) : undefined}
+        />
+      )}
+
+      <WebhookTestDialog profile={selected} open={isTesting} onOpenChange={setIsTesting} />
+
+      <Dialog open={isManaging} onOpenChange={setIsManaging}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Webhooks</DialogTitle>
+            <DialogDescription>
+              Saved endpoints are kept in this browser, including header values and signing secrets.
+            </DialogDescription>
+          </DialogHeader>
+          <ProfileManager profiles={profiles} onSaveProfile={onSaveProfile} onRemoveProfile={handleRemove} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+
+import { RequestPreview, previewWebhookRequest } from '@/lib/request-preview';
+import type { WebhookProfileInput } from '@/lib/webhook-profiles';
+
+interface WebhookRequestPreviewProps {
+  profile: WebhookProfileInput;
+}
+
+export function WebhookRequestPreview({ profile }: WebhookRequestPreviewProps) {
+  const [preview, setPreview] = useState<RequestPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Field arrays hand back new objects on every render, so compare by content
+  const key = JSON.stringify(profile);
+
+  useEffect(() => {
+    let cancelled = false;
+    previewWebhookRequest(JSON.parse(key))
+      .then((next) => {
+        if (cancelled) return;
+        setPreview(next);
+        setError(null);
+      })
+      .catch((reason) => {
+        if (!cancelled) setError(reason instanceof Error ? reason.message : 'Preview unavailable');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Request preview</p>
+      <p className="text-xs text-muted-foreground">What this webhook receives for a sample post. Nothing is sent.</p>
+      <pre className="max-h-80 overflow-auto rounded-lg bg-muted/60 p-3 text-xs leading-relaxed">
+        {error ?? (preview
+          ? [
+            `${preview.method} ${preview.url || '<webhook URL>'}`,
+            ...preview.headers.map(([name, value]) => `${name}: ${value}`),
+            '',
+            preview.body,
+          ].join('\n')
+          : 'Rendering…')}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, RotateCw, XCircle } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import type { WebhookProfile } from '@/lib/webhook-profiles';
+import { WebhookTestFailure, WebhookTestResult, prettyPrintBody, testWebhook } from '@/lib/webhook-test';
+
+const FAILURE_GUIDANCE: Record<WebhookTestFailure, { title: string; description: (origin: string) => string }> = {
+  cors: {
+    title: 'Likely blocked by CORS',
+    description: (origin) =>
+      `The server answered, but the browser hid the response because it does not allow requests from ${origin}. ` +
+      'Have the endpoint answer the OPTIONS preflight with Access-Control-Allow-Origin for this origin and ' +
+      'Access-Control-Allow-Headers covering Content-Type, Idempotency-Key, X-Signature, X-Timestamp and any custom headers. ' +
+      'In n8n this is the "Allowed Origins (CORS)" option on the Webhook node.',
+  },
+  'mixed-content': {
+    title: 'Insecure URL',
+    description: () => 'This page is served over HTTPS, so browsers refuse to call an http:// webhook. Use the https:// URL of the endpoint.',
+  },
+  unreachable: {
+    title: 'Endpoint unreachable',
+    description: () => 'Nothing answered at this URL. Check for typos, that the workflow is active, and that the host resolves from this network.',
+  },
+};
+
+function HeaderList({ headers, empty }: { headers: [string, string][]; empty: string }) {
+  if (headers.length === 0) return <p className="text-sm text-muted-foreground">{empty}</p>;
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 font-mono text-xs">
+      {headers.map(([name, value]) => (
+        <div key={name} className="contents">
+          <dt className="text-muted-foreground">{name}</dt>
+          <dd className="break-all">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function CodeBlock({ children }: { children: string }) {
+  return (
+    <pre className="max-h-72 overflow-auto rounded-lg bg-muted/60 p-3 text-xs leading-relaxed whitespace-pre-wrap break-words">
+      {children || '(empty)'}
+    </pre>
+  );
+}
+
+interface WebhookTestDialogProps {
+  profile: WebhookProfile | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WebhookTestDialog({ profile, open, onOpenChange }: WebhookTestDialogProps) {
+  const [result, setResult] = useState<WebhookTestResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async () => {
+    if (!profile) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(await testWebhook(profile));
+    } catch (reason) {
+      console.error('Webhook test error:', reason);
+      setResult(null);
+      setError(reason instanceof Error ? reason.message : 'The test request could not be built');
+    } finally {
+      setIsRunning(false);
+    }
+  }, [profile]);
+
+  // Every time the dialog opens it sends a fresh test, but a re-render while open must not resend
+  const runRef = useRef(run);
+  runRef.current = run;
+  useEffect(() => {
+    if (open) runRef.current();
+  }, [open]);
+
+  const response = result?.response;
+  const guidance = result?.failure && FAILURE_GUIDANCE[result.failure];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Test {profile?.name ?? 'webhook'}</DialogTitle>
+          <DialogDescription>
+            Sends a sample post marked <code>test: true</code>, so your flow can skip publishing it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isRunning && (
+          <div className="flex items-center gap-2 py-8 justify-center text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Sending test request…
+          </div>
+        )}
+
+        {!isRunning && error && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>Test not sent</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isRunning && result && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              {response ? (
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    "gap-1 text-sm",
+                    response.ok
+                      ? "bg-emerald-500/10 text-emerald-700 border-emerald-500/20 dark:text-emerald-400"
+                      : "bg-destructive/10 text-destructive border-destructive/20"
+                  )}
+                >
+                  {response.ok ? <CheckCircle2 className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+                  {response.status} {response.statusText}
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="gap-1 text-sm bg-destructive/10 text-destructive border-destructive/20">
+                  <XCircle className="h-3.5 w-3.5" />
+                  No response
+                </Badge>
+              )}
+              <span className="text-sm text-muted-foreground">{result.durationMs} ms</span>
+              <span className="truncate font-mono text-xs text-muted-foreground">POST {result.request.url}</span>
+            </div>
+
+            {guidance && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{guidance.title}</AlertTitle>
+                <AlertDescription className="space-y-1">
+                  <p>{guidance.description(window.location.origin)}</p>
+                  {result.error && <p className="font-mono text-xs">{result.error}</p>}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Tabs key={response ? 'response' : 'request'} defaultValue={response ? 'response' : 'request'}>
+              <TabsList>
+                <TabsTrigger value="response" disabled={!response}>Response</TabsTrigger>
+                <TabsTrigger value="request">Request</TabsTrigger>
+              </TabsList>
+              <TabsContent value="response" className="space-y-3">
+                {response && (
+                  <>
+                    <HeaderList
+                      headers={response.headers}
+                      empty="No readable headers. Browsers only expose those listed in Access-Control-Expose-Headers."
+                    />
+                    <CodeBlock>{prettyPrintBody(response.body)}</CodeBlock>
+                  </>
+                )}
+              </TabsContent>
+              <TabsContent value="request" className="space-y-3">
+                <HeaderList headers={result.request.headers} empty="No headers." />
+                <CodeBlock>{result.request.body}</CodeBlock>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" className="gap-2" disabled={isRunning || !profile} onClick={run}>
+            <RotateCw className="h-4 w-4" />
+            Send again
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
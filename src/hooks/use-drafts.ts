@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { AUTOSAVE_DELAY, Draft, createDraftId, deleteDraft, listDrafts, saveDraft, toStoredMedia } from '@/lib/drafts';
+import type { MediaItem } from '@/lib/media';
+
+export interface DraftSnapshot<Values> {
+  values: Values;
+  media: MediaItem[];
+  maxDimension: number;
+}
+
+// Keeps the composer's work in IndexedDB under one draft id per editing session
+export function useDrafts<Values>() {
+  const [drafts, setDrafts] = useState<Draft<Values>[]>([]);
+  const [activeDraftId, setActiveDraftId] = useState(createDraftId);
+  const [restoreCandidate, setRestoreCandidate] = useState<Draft<Values> | null>(null);
+  // Refs so the debounced save and page-hide flush always see the latest state
+  const draftsRef = useRef(drafts);
+  const activeIdRef = useRef(activeDraftId);
+  const pending = useRef<DraftSnapshot<Values> | null>(null);
+  const timer = useRef<number>();
+
+  const updateDrafts = useCallback((update: (prev: Draft<Values>[]) => Draft<Values>[]) => {
+    draftsRef.current = update(draftsRef.current);
+    setDrafts(draftsRef.current);
+  }, []);
+
+  const activate = useCallback((id: string) => {
+    activeIdRef.current = id;
+    setActiveDraftId(id);
+  }, []);
+
+  const cancelPending = useCallback(() => {
+    window.clearTimeout(timer.current);
+    pending.current = null;
+  }, []);
+
+  const flush = useCallback(async () => {
+    const snapshot = pending.current;
+    cancelPending();
+    if (!snapshot) return;
+
+    const id = activeIdRef.current;
+    const existing = draftsRef.current.find((draft) => draft.id === id);
+    const now = Date.now();
+    const draft: Draft<Values> = {
+      id,
+      name: existing?.name,
+      values: snapshot.values,
+      media: snapshot.media.map(toStoredMedia),
+      maxDimension: snapshot.maxDimension,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    updateDrafts((prev) => [draft, ...prev.filter((item) => item.id !== id)]);
+    try {
+      await saveDraft(draft);
+    } catch (error) {
+      console.error('Draft autosave error:', error);
+    }
+  }, [cancelPending, updateDrafts]);
+
+  const scheduleSave = useCallback((snapshot: DraftSnapshot<Values>) => {
+    pending.current = snapshot;
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(flush, AUTOSAVE_DELAY);
+  }, [flush]);
+
+  useEffect(() => {
+    listDrafts<Values>()
+      .then((stored) => {
+        updateDrafts(() => stored);
+        setRestoreCandidate(stored[0] ?? null);
+      })
+      .catch((error) => console.error('Could not load drafts:', error));
+  }, [updateDrafts]);
+
+  // Write immediately when the tab is hidden or closed instead of waiting out the debounce
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  const openDraft = useCallback((draft: Draft<Values>) => {
+    flush();
+    activate(draft.id);
+    setRestoreCandidate(null);
+  }, [activate, flush]);
+
+  const startNewDraft = useCallback(() => {
+    flush();
+    activate(createDraftId());
+    setRestoreCandidate(null);
+  }, [activate, flush]);
+
+  const removeDraft = useCallback(async (id: string) => {
+    if (id === activeIdRef.current) cancelPending();
+    updateDrafts((prev) => prev.filter((draft) => draft.id !== id));
+    setRestoreCandidate((candidate) => (candidate?.id === id ? null : candidate));
+    try {
+      await deleteDraft(id);
+    } catch (error) {
+      console.error('Could not delete draft:', error);
+    }
+  }, [cancelPending, updateDrafts]);
+
+  // Once a post has gone out its draft is no longer needed
+  const discardActiveDraft = useCallback(async () => {
+    const id = activeIdRef.current;
+    // Drop any unsaved edits first, or the debounce would save the sent post under the new id
+    cancelPending();
+    activate(createDraftId());
+    await removeDraft(id);
+  }, [activate, cancelPending, removeDraft]);
+
+  const renameDraft = useCallback(async (id: string, name: string) => {
+    const draft = draftsRef.current.find((item) => item.id === id);
+    if (!draft) return;
+    const renamed = { ...draft, name: name.trim() || undefined };
+    updateDrafts((prev) => prev.map((item) => (item.id === id ? renamed : item)));
+    try {
+      await saveDraft(renamed);
+    } catch (error) {
+      console.error('Could not rename draft:', error);
+    }
+  }, [updateDrafts]);
+
+  const dismissRestore = useCallback(() => setRestoreCandidate(null), []);
+
+  return {
+    drafts,
+    activeDraftId,
+    restoreCandidate,
+    scheduleSave,
+    openDraft,
+    startNewDraft,
+    removeDraft,
+    discardActiveDraft,
+    renameDraft,
+    dismissRestore,
+  };
+}
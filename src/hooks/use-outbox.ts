@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+
+import {
+  OutboxEntry,
+  discardOutboxEntry,
+  isOffline,
+  listOutbox,
+  processOutbox,
+  retryOutboxEntry,
+  subscribeToOutbox,
+} from '@/lib/outbox';
+
+function runOutbox(force = false) {
+  processOutbox({ force }).catch((error) => console.error('Outbox delivery failed:', error));
+}
+
+function useOutboxState() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() => !isOffline());
+
+  useEffect(() => {
+    const refresh = () => {
+      listOutbox()
+        .then(setEntries)
+        .catch((error) => console.error('Could not load the outbox:', error));
+    };
+    refresh();
+    return subscribeToOutbox(refresh);
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return { entries, isOnline };
+}
+
+// Drives automatic retries; mounted once for the whole app so queued posts go out on every page
+export function useOutboxProcessor() {
+  const { entries, isOnline } = useOutboxState();
+
+  useEffect(() => {
+    // Whatever was waiting on the connection goes out now rather than at its backoff time
+    const handleOnline = () => runOutbox(true);
+    window.addEventListener('online', handleOnline);
+    runOutbox();
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  // Wake up when the next pending entry is due
+  useEffect(() => {
+    if (!isOnline) return;
+    const due = entries.filter(({ status }) => status === 'pending').map(({ nextAttemptAt }) => nextAttemptAt);
+    if (due.length === 0) return;
+    const timer = window.setTimeout(() => runOutbox(), Math.max(0, Math.min(...due) - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [entries, isOnline]);
+}
+
+// The queue for display, with manual retry and discard
+export function useOutbox() {
+  const { entries, isOnline } = useOutboxState();
+  return { entries, isOnline, retry: retryOutboxEntry, discard: discardOutboxEntry };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  WebhookProfile,
+  WebhookProfileInput,
+  loadWebhookProfiles,
+  saveWebhookProfiles,
+  upsertWebhookProfile,
+} from '@/lib/webhook-profiles';
+
+export function useWebhookProfiles() {
+  const [profiles, setProfiles] = useState(loadWebhookProfiles);
+
+  // Another tab may add or edit profiles while this one is open
+  useEffect(() => {
+    const handleStorage = () => setProfiles(loadWebhookProfiles());
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const saveProfile = useCallback((input: WebhookProfileInput, id: string = crypto.randomUUID()): WebhookProfile => {
+    const profile = { ...input, id };
+    setProfiles((prev) => {
+      const next = upsertWebhookProfile(prev, profile);
+      saveWebhookProfiles(next);
+      return next;
+    });
+    return profile;
+  }, []);
+
+  const removeProfile = useCallback((id: string) => {
+    setProfiles((prev) => {
+      const next = prev.filter((profile) => profile.id !== id);
+      saveWebhookProfiles(next);
+      return next;
+    });
+  }, []);
+
+  return { profiles, saveProfile, removeProfile };
+}
@@ -0,0 +1,75 @@
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  getHours,
+  getMinutes,
+  getSeconds,
+  set,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+
+import type { PostRecord } from '@/lib/posts';
+
+export type CalendarView = 'month' | 'week';
+
+// Matches the date picker, which starts weeks on Sunday
+export const WEEK_STARTS_ON = 0;
+
+export const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export function getMonthDays(month: Date): Date[] {
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn: WEEK_STARTS_ON }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: WEEK_STARTS_ON }),
+  });
+}
+
+export function getWeekDays(date: Date): Date[] {
+  return eachDayOfInterval({
+    start: startOfWeek(date, { weekStartsOn: WEEK_STARTS_ON }),
+    end: endOfWeek(date, { weekStartsOn: WEEK_STARTS_ON }),
+  });
+}
+
+export function shiftPeriod(date: Date, view: CalendarView, amount: number): Date {
+  return view === 'month' ? addMonths(date, amount) : addWeeks(date, amount);
+}
+
+export function getPeriodLabel(date: Date, view: CalendarView): string {
+  if (view === 'month') return format(date, 'MMMM yyyy');
+  const [first, last] = [getWeekDays(date)[0], getWeekDays(date)[6]];
+  return first.getMonth() === last.getMonth()
+    ? `${format(first, 'MMM d')} – ${format(last, 'd, yyyy')}`
+    : `${format(first, 'MMM d')} – ${format(last, 'MMM d, yyyy')}`;
+}
+
+export function dayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Moving between days keeps the time of day; moving into an hour slot keeps the minutes
+export function moveToSlot(original: Date, day: Date, hour?: number): Date {
+  return set(day, {
+    hours: hour ?? getHours(original),
+    minutes: getMinutes(original),
+    seconds: getSeconds(original),
+    milliseconds: 0,
+  });
+}
+
+// Posts keyed by local calendar day, earliest first
+export function groupPostsByDay(posts: PostRecord[]): Map<string, PostRecord[]> {
+  const groups = new Map<string, PostRecord[]>();
+  [...posts]
+    .sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt))
+    .forEach((post) => {
+      const key = dayKey(new Date(post.scheduledAt));
+      groups.set(key, [...(groups.get(key) ?? []), post]);
+    });
+  return groups;
+}
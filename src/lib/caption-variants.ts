@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+export const captionVariantSchema = z.object({
+  override: z.boolean(),
+  caption: z.string(),
+  hashtags: z.string(),
+});
+
+export const captionVariantsSchema = z.record(captionVariantSchema);
+
+export type CaptionVariant = z.infer<typeof captionVariantSchema>;
+export type CaptionVariants = z.infer<typeof captionVariantsSchema>;
+
+export interface ResolvedCaption {
+  caption: string;
+  hashtags: string;
+  overridden: boolean;
+}
+
+export function isOverridden(variants: CaptionVariants, platformId: string): boolean {
+  return Boolean(variants[platformId]?.override);
+}
+
+// The caption and hashtags each platform will actually publish, falling back to the base copy
+export function resolveCaption(
+  base: { caption: string; hashtags?: string },
+  variants: CaptionVariants,
+  platformId: string
+): ResolvedCaption {
+  const variant = variants[platformId];
+  if (variant?.override) {
+    return { caption: variant.caption, hashtags: variant.hashtags, overridden: true };
+  }
+  return { caption: base.caption, hashtags: base.hashtags || '', overridden: false };
+}
+
+export function resolveCaptions(
+  base: { caption: string; hashtags?: string },
+  variants: CaptionVariants,
+  platformIds: string[]
+): Record<string, ResolvedCaption> {
+  return Object.fromEntries(platformIds.map((id) => [id, resolveCaption(base, variants, id)]));
+}
@@ -0,0 +1,76 @@
+const DB_NAME = 'social-media-automation';
+const DB_VERSION = 4;
+
+// Every store is keyed by an `id` property on its records
+export const STORES = {
+  drafts: 'drafts',
+  posts: 'posts',
+  outbox: 'outbox',
+  deliveryLog: 'delivery-log',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let connection: Promise<IDBDatabase> | undefined;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The database is open in an older version of this app'));
+    });
+    // Let a later call retry instead of caching the failure
+    connection.catch(() => {
+      connection = undefined;
+    });
+  }
+  return connection;
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return requestResult(run(db.transaction(name, mode).objectStore(name)));
+}
+
+export function getAllRecords<T>(name: StoreName): Promise<T[]> {
+  return withStore(name, 'readonly', (store) => store.getAll() as IDBRequest<T[]>);
+}
+
+export function countRecords(name: StoreName): Promise<number> {
+  return withStore(name, 'readonly', (store) => store.count());
+}
+
+export function getRecord<T>(name: StoreName, id: string): Promise<T | undefined> {
+  return withStore(name, 'readonly', (store) => store.get(id) as IDBRequest<T | undefined>);
+}
+
+export async function putRecord<T extends { id: string }>(name: StoreName, record: T): Promise<void> {
+  await withStore(name, 'readwrite', (store) => store.put(record));
+}
+
+export async function deleteRecord(name: StoreName, id: string): Promise<void> {
+  await withStore(name, 'readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,185 @@
+import { STORES, countRecords, deleteRecord, getAllRecords, putRecord } from '@/lib/database';
+import { formatFileSize } from '@/lib/media-validation';
+
+// Old entries are pruned past this, so the log never grows without bound
+export const MAX_LOG_ENTRIES = 500;
+const RESPONSE_EXCERPT_LENGTH = 1000;
+
+export type DeliveryKind = 'submission' | 'retry' | 'reschedule' | 'test' | 'media-upload' | 'ai-generate';
+
+export const DELIVERY_KIND_LABELS: Record<DeliveryKind, string> = {
+  submission: 'Submission',
+  retry: 'Outbox retry',
+  reschedule: 'Reschedule',
+  test: 'Webhook test',
+  'media-upload': 'Media upload',
+  'ai-generate': 'AI generation',
+};
+
+export type DeliveryErrorClass = 'network' | 'aborted' | 'client-error' | 'server-error';
+
+export const DELIVERY_ERROR_LABELS: Record<DeliveryErrorClass, string> = {
+  network: 'Network / CORS',
+  aborted: 'Aborted',
+  'client-error': 'Client error (4xx)',
+  'server-error': 'Server error (5xx)',
+};
+
+export interface DeliveryLogEntry {
+  id: string;
+  kind: DeliveryKind;
+  method: string;
+  url: string;
+  // What the request was about, e.g. the post title or the AI prompt
+  subject?: string;
+  payloadSummary: string;
+  startedAt: number;
+  durationMs: number;
+  ok: boolean;
+  httpStatus?: number;
+  errorClass?: DeliveryErrorClass;
+  errorMessage?: string;
+  responseExcerpt: string;
+}
+
+export interface DeliveryLogFilters {
+  kind: DeliveryKind | 'all';
+  outcome: 'all' | 'ok' | 'failed';
+  query: string;
+}
+
+export const DEFAULT_LOG_FILTERS: DeliveryLogFilters = { kind: 'all', outcome: 'all', query: '' };
+
+export function summarizeBody(body: BodyInit | null | undefined): string {
+  if (body === null || body === undefined) return 'No body';
+  if (typeof body === 'string') {
+    try {
+      const parsed = JSON.parse(body);
+      const keys = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? Object.keys(parsed) : [];
+      return `JSON, ${formatFileSize(body.length)}${keys.length > 0 ? `: ${keys.join(', ')}` : ''}`;
+    } catch {
+      return `Text, ${formatFileSize(body.length)}`;
+    }
+  }
+  if (body instanceof FormData) {
+    const entries = Array.from(body.entries());
+    const files = entries.filter(([, value]) => typeof value !== 'string') as [string, File][];
+    const size = files.reduce((total, [, file]) => total + file.size, 0);
+    return `Multipart, ${entries.length - files.length} fields, ${files.length} files (${formatFileSize(size)})`;
+  }
+  if (body instanceof Blob) return `${body.type.split(';')[0] || 'Binary'}, ${formatFileSize(body.size)}`;
+  if (body instanceof ArrayBuffer) return `Binary, ${formatFileSize(body.byteLength)}`;
+  return 'Body';
+}
+
+function classifyStatus(status: number): DeliveryErrorClass | undefined {
+  if (status >= 500) return 'server-error';
+  if (status >= 400) return 'client-error';
+  return undefined;
+}
+
+// A cheap count on every write; the full read and sort only happen once the log is over the limit
+async function pruneLog(): Promise<void> {
+  if (await countRecords(STORES.deliveryLog) <= MAX_LOG_ENTRIES) return;
+  const entries = await listDeliveryLog();
+  await Promise.all(entries.slice(MAX_LOG_ENTRIES).map(({ id }) => deleteRecord(STORES.deliveryLog, id)));
+}
+
+// The log is diagnostics only, so failing to write it never fails the request itself
+async function writeEntry(entry: DeliveryLogEntry): Promise<void> {
+  try {
+    await putRecord(STORES.deliveryLog, entry);
+    await pruneLog();
+  } catch (error) {
+    console.error('Could not write the delivery log:', error);
+  }
+}
+
+// Reads only as much of the body as the excerpt keeps, so a large or streamed reply is never buffered for logging
+async function readExcerpt(response: Response): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) return '';
+  const decoder = new TextDecoder();
+  let text = '';
+  try {
+    while (text.length < RESPONSE_EXCERPT_LENGTH) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+  return text.slice(0, RESPONSE_EXCERPT_LENGTH);
+}
+
+// Drop-in for fetch that records the request and its outcome. The response is handed back straight away;
+// its entry is written once the excerpt has been read from a clone.
+export async function loggedFetch(
+  kind: DeliveryKind,
+  url: string,
+  init: RequestInit = {},
+  subject?: string
+): Promise<Response> {
+  const base = {
+    id: crypto.randomUUID(),
+    kind,
+    method: init.method ?? 'GET',
+    url,
+    subject,
+    payloadSummary: summarizeBody(init.body),
+    startedAt: Date.now(),
+  };
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(url, init);
+    const durationMs = Math.round(performance.now() - startedAt);
+    readExcerpt(response.clone())
+      .catch(() => '')
+      .then((excerpt) => writeEntry({
+        ...base,
+        durationMs,
+        ok: response.ok,
+        httpStatus: response.status,
+        errorClass: classifyStatus(response.status),
+        responseExcerpt: excerpt,
+      }));
+    return response;
+  } catch (error) {
+    await writeEntry({
+      ...base,
+      durationMs: Math.round(performance.now() - startedAt),
+      ok: false,
+      errorClass: error instanceof DOMException && error.name === 'AbortError' ? 'aborted' : 'network',
+      errorMessage: error instanceof Error ? error.message : String(error),
+      responseExcerpt: '',
+    });
+    throw error;
+  }
+}
+
+export async function listDeliveryLog(): Promise<DeliveryLogEntry[]> {
+  const entries = await getAllRecords<DeliveryLogEntry>(STORES.deliveryLog);
+  return entries.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function clearDeliveryLog(): Promise<void> {
+  const entries = await getAllRecords<DeliveryLogEntry>(STORES.deliveryLog);
+  await Promise.all(entries.map(({ id }) => deleteRecord(STORES.deliveryLog, id)));
+}
+
+export function filterDeliveryLog(entries: DeliveryLogEntry[], { kind, outcome, query }: DeliveryLogFilters): DeliveryLogEntry[] {
+  const needle = query.trim().toLocaleLowerCase();
+  return entries.filter((entry) =>
+    (kind === 'all' || entry.kind === kind)
+    && (outcome === 'all' || (outcome === 'ok') === entry.ok)
+    && (!needle || [entry.url, entry.subject, entry.errorMessage, entry.responseExcerpt]
+      .some((value) => value?.toLocaleLowerCase().includes(needle)))
+  );
+}
+
+export function exportDeliveryLog(entries: DeliveryLogEntry[]): Blob {
+  return new Blob([JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2)], {
+    type: 'application/json',
+  });
+}
@@ -0,0 +1,53 @@
+import { STORES, deleteRecord, getAllRecords, putRecord } from '@/lib/database';
+import type { MediaItem, VideoCover } from '@/lib/media';
+
+export const AUTOSAVE_DELAY = 1000;
+
+// Object URLs die with the page, so media is stored as blobs and gets fresh URLs on restore
+export type StoredMediaItem = Omit<MediaItem, 'previewUrl' | 'cover'> & {
+  cover?: Omit<VideoCover, 'previewUrl'>;
+};
+
+export interface Draft<Values = Record<string, unknown>> {
+  id: string;
+  // Set when the user names a draft; unnamed drafts fall back to the post title
+  name?: string;
+  values: Values;
+  media: StoredMediaItem[];
+  maxDimension: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export function createDraftId(): string {
+  return crypto.randomUUID();
+}
+
+export function getDraftName(draft: Draft<{ postTitle?: string }>): string {
+  return draft.name?.trim() || draft.values.postTitle?.trim() || 'Untitled draft';
+}
+
+export function toStoredMedia({ previewUrl: _previewUrl, cover, ...item }: MediaItem): StoredMediaItem {
+  return { ...item, cover: cover && { file: cover.file, time: cover.time } };
+}
+
+export function fromStoredMedia({ cover, ...item }: StoredMediaItem): MediaItem {
+  return {
+    ...item,
+    previewUrl: URL.createObjectURL(item.original),
+    cover: cover && { ...cover, previewUrl: URL.createObjectURL(cover.file) },
+  };
+}
+
+export async function listDrafts<Values>(): Promise<Draft<Values>[]> {
+  const drafts = await getAllRecords<Draft<Values>>(STORES.drafts);
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function saveDraft<Values>(draft: Draft<Values>): Promise<void> {
+  return putRecord(STORES.drafts, draft);
+}
+
+export function deleteDraft(id: string): Promise<void> {
+  return deleteRecord(STORES.drafts, id);
+}
@@ -0,0 +1,118 @@
+export type HashtagIssue = 'invalid' | 'numeric' | 'banned';
+
+export interface HashtagCheck {
+  tag: string;
+  issue?: HashtagIssue;
+  // CamelCase spelling of an all-lowercase multi-word tag, so screen readers can pronounce it
+  suggestion?: string;
+}
+
+export const HASHTAG_ISSUE_MESSAGES: Record<HashtagIssue, string> = {
+  invalid: 'Only letters, numbers and underscores are allowed',
+  numeric: 'Hashtags cannot be made of numbers only',
+  banned: 'Platforms are known to hide posts that use this tag',
+};
+
+// Engagement-bait tags that networks restrict or shadow-limit
+export const BANNED_HASHTAGS = new Set([
+  'follow4follow',
+  'followforfollow',
+  'followback',
+  'f4f',
+  'like4like',
+  'likeforlike',
+  'likesforlikes',
+  'l4l',
+  'tagsforlikes',
+  'instafollow',
+  'followme',
+  'likeback',
+]);
+
+const VALID_BODY = /^[\p{L}\p{M}\p{N}_]+$/u;
+const TRAILING_PUNCTUATION = /[.,!?;:)\]}"'…]+$/u;
+const SEPARATORS = /[\s,;]+/;
+
+// Common words used to split run-together tags like #socialmediatips into readable parts
+const COMMON_WORDS = new Set(`
+a about after all am an and app art at back bad be beach beauty best big black blog blue book boss brand
+build business buy by cafe car care city clean club code coffee cook cool craft create creative daily
+data day deal design dev digital diy dog dream eat eco energy event every family fashion fast fit
+fitness flash food for free fresh friday fun game garden get gift girl go goals good great green
+grow growth hair happy health healthy help her his home hot how ideas in inspo is it just kid kids
+kitchen learn life like live local love made make makeup man marketing me media mind monday money
+morning motivation music my nature new news night no now of off on one online open our out outdoor
+party people pet photo plan play post power pro product quote read real recipe run sale saturday
+school season self shop show small smart social south special sport spring start startup
+story strong style summer sunday sunset team tech the thing think this throwback thursday time tip
+tips to today top travel tuesday up us vibes video wear wednesday week weekend well wellness what
+winter with woman women work workout world year yoga you your
+`.trim().split(/\s+/));
+
+function stripPrefix(token: string): string {
+  return token.replace(/^#+/, '').replace(TRAILING_PUNCTUATION, '');
+}
+
+// Pasted prose keeps only its #tags; a plain list of words is treated as tags throughout
+export function parseHashtags(text: string): string[] {
+  const tokens = text.split(SEPARATORS).flatMap((token) => token.split(/(?=#)/)).filter(Boolean);
+  const tagged = tokens.some((token) => token.startsWith('#'))
+    ? tokens.filter((token) => token.startsWith('#'))
+    : tokens;
+  return dedupeHashtags(tagged.map(stripPrefix).filter(Boolean).map((body) => `#${body}`));
+}
+
+// Keeps the first spelling of each tag, comparing without regard to case
+export function dedupeHashtags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = tag.toLocaleLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function joinHashtags(tags: string[]): string {
+  return tags.join(' ');
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toLocaleUpperCase() + word.slice(1);
+}
+
+// Splits on known words (and runs of digits), preferring the fewest parts
+function segmentWords(body: string): string[] | undefined {
+  const best: (string[] | undefined)[] = [[]];
+  for (let end = 1; end <= body.length; end++) {
+    for (let start = 0; start < end; start++) {
+      const previous = best[start];
+      const word = body.slice(start, end);
+      if (!previous || !(COMMON_WORDS.has(word) || /^\d+$/.test(word))) continue;
+      if (!best[end] || previous.length + 1 < best[end].length) {
+        best[end] = [...previous, word];
+      }
+    }
+  }
+  return best[body.length];
+}
+
+export function suggestCamelCase(tag: string): string | undefined {
+  const body = stripPrefix(tag);
+  const separated = body.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const words = separated.length > 1
+    ? separated
+    : body === body.toLocaleLowerCase() ? segmentWords(body) : undefined;
+  if (!words || words.length < 2) return undefined;
+  const suggestion = `#${words.map(capitalize).join('')}`;
+  return suggestion === tag ? undefined : suggestion;
+}
+
+export function checkHashtag(tag: string): HashtagCheck {
+  const body = stripPrefix(tag);
+  const suggestion = suggestCamelCase(tag);
+  if (!VALID_BODY.test(body)) return { tag, issue: 'invalid', suggestion };
+  if (/^[\d_]+$/.test(body)) return { tag, issue: 'numeric' };
+  if (BANNED_HASHTAGS.has(body.toLocaleLowerCase())) return { tag, issue: 'banned' };
+  return { tag, suggestion };
+}
@@ -0,0 +1,64 @@
+import type { MediaItem } from '@/lib/media';
+import type { PostRecord } from '@/lib/posts';
+import type { PostFields } from '@/lib/webhook-payload';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// How far back a delivered post still counts as a likely accidental re-send
+export const DUPLICATE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Key last sent for a draft, with the content it was sent with
+export interface IdempotencyState {
+  draftId: string;
+  key: string;
+  contentHash?: string;
+}
+
+// Sending the same content again keeps the draft's key, so the receiver can drop the repeat.
+// Changed content, or a re-send the user confirmed, is a new post to the receiver and gets a fresh key.
+export function nextIdempotencyKey(
+  state: IdempotencyState | undefined,
+  draftId: string,
+  contentHash: string,
+  { resend = false }: { resend?: boolean } = {}
+): IdempotencyState {
+  const current = state?.draftId === draftId ? state : { draftId, key: draftId };
+  const changed = current.contentHash !== undefined && current.contentHash !== contentHash;
+  return { draftId, contentHash, key: resend || changed ? crypto.randomUUID() : current.key };
+}
+
+export interface DuplicateSubmission {
+  post: PostRecord;
+  // `key` means the same draft went out before; `content` means an identical post did
+  match: 'key' | 'content';
+}
+
+// Same post, same hash: ids and values derived from the schedule are left out, and media is
+// identified by the files as picked so re-processing at another size does not change it
+export async function hashPostContent(fields: PostFields, media: MediaItem[]): Promise<string> {
+  const canonical = JSON.stringify([
+    fields.postTitle.trim(),
+    fields.caption.trim(),
+    fields.hashtagList,
+    [...fields.platforms].sort(),
+    Object.entries(fields.variants).sort(([a], [b]) => a.localeCompare(b)),
+    fields.scheduledDate,
+    fields.recurrenceRule ?? null,
+    media.map(({ original }) => [original.name, original.size]),
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Only successful deliveries count; a failed attempt is exactly what the user may want to send again
+export function findDuplicateSubmission(
+  posts: PostRecord[],
+  { idempotencyKey, contentHash }: { idempotencyKey: string; contentHash: string },
+  now = Date.now()
+): DuplicateSubmission | undefined {
+  const recent = posts.filter((post) => post.status === 'success' && now - post.submittedAt <= DUPLICATE_WINDOW_MS);
+  const byKey = recent.find((post) => post.idempotencyKey === idempotencyKey);
+  if (byKey) return { post: byKey, match: 'key' };
+  const byContent = recent.find((post) => post.contentHash === contentHash);
+  return byContent && { post: byContent, match: 'content' };
+}
@@ -0,0 +1,88 @@
+export interface ImageProcessingOptions {
+  maxDimension: number;
+  quality: number;
+  minQuality: number;
+  targetSize: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+}
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+type CanvasContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+const QUALITY_STEP = 0.1;
+
+function fitWithin(width: number, height: number, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+function canvasToBlob(canvas: Canvas, type: string, quality: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))), type, quality);
+  });
+}
+
+function renameForType(name: string, type: string): string {
+  const extension = type === 'image/png' ? 'png' : 'jpg';
+  return /\.\w+$/.test(name) ? name.replace(/\.\w+$/, `.${extension}`) : `${name}.${extension}`;
+}
+
+/**
+ * Downscales and re-encodes an image. Decoding through createImageBitmap applies the EXIF
+ * orientation, and drawing onto a canvas drops every metadata block from the output.
+ * Runs in the worker with OffscreenCanvas and on the main thread as a fallback.
+ */
+export async function compressImage(
+  file: File,
+  options: ImageProcessingOptions,
+  createCanvas: (width: number, height: number) => Canvas
+): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, options.maxDimension);
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d') as CanvasContext | null;
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is unavailable');
+  }
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  let type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  let blob = await canvasToBlob(canvas, type, options.quality);
+
+  // PNG ignores quality, so an oversized PNG is flattened onto white and sent as JPEG instead
+  if (type === 'image/png' && blob.size > options.targetSize) {
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    type = 'image/jpeg';
+    blob = await canvasToBlob(canvas, type, options.quality);
+  }
+
+  if (type === 'image/jpeg') {
+    for (
+      let quality = options.quality - QUALITY_STEP;
+      blob.size > options.targetSize && quality >= options.minQuality - 1e-6;
+      quality -= QUALITY_STEP
+    ) {
+      blob = await canvasToBlob(canvas, type, quality);
+    }
+  }
+
+  return {
+    file: new File([blob], renameForType(file.name, type), { type, lastModified: file.lastModified }),
+    width,
+    height,
+  };
+}
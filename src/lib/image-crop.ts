@@ -0,0 +1,99 @@
+export type AspectRatioId = '1:1' | '4:5' | '1.91:1' | '9:16';
+
+export interface AspectRatioPreset {
+  id: AspectRatioId;
+  label: string;
+  ratio: number;
+}
+
+export const ASPECT_RATIOS: AspectRatioPreset[] = [
+  { id: '1:1', label: 'Square', ratio: 1 },
+  { id: '4:5', label: 'Portrait', ratio: 4 / 5 },
+  { id: '1.91:1', label: 'Landscape', ratio: 1.91 },
+  { id: '9:16', label: 'Story', ratio: 9 / 16 },
+];
+
+// Fractions of the cropped frame that platform UI chrome tends to cover
+export const SAFE_ZONES: Record<AspectRatioId, { top: number; right: number; bottom: number; left: number }> = {
+  '1:1': { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+  '4:5': { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+  '1.91:1': { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+  '9:16': { top: 0.14, right: 0.06, bottom: 0.2, left: 0.06 },
+};
+
+export const MAX_CROP_ZOOM = 3;
+
+// All coordinates are fractions of the source image so crops survive re-processing at another size
+export interface CropSettings {
+  aspect: AspectRatioId;
+  zoom: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PlatformCrops = Record<string, CropSettings>;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function getRatio(aspect: AspectRatioId): number {
+  return ASPECT_RATIOS.find((preset) => preset.id === aspect)?.ratio ?? 1;
+}
+
+export function createCrop(
+  imageAspect: number,
+  aspect: AspectRatioId,
+  zoom = 1,
+  center = { x: 0.5, y: 0.5 }
+): CropSettings {
+  const ratio = getRatio(aspect);
+  const width = (ratio > imageAspect ? 1 : ratio / imageAspect) / zoom;
+  const height = (ratio > imageAspect ? imageAspect / ratio : 1) / zoom;
+  return {
+    aspect,
+    zoom,
+    width,
+    height,
+    x: clamp(center.x - width / 2, 0, 1 - width),
+    y: clamp(center.y - height / 2, 0, 1 - height),
+  };
+}
+
+export function moveCrop(crop: CropSettings, dx: number, dy: number): CropSettings {
+  return {
+    ...crop,
+    x: clamp(crop.x + dx, 0, 1 - crop.width),
+    y: clamp(crop.y + dy, 0, 1 - crop.height),
+  };
+}
+
+export function getCropCenter(crop: CropSettings): { x: number; y: number } {
+  return { x: crop.x + crop.width / 2, y: crop.y + crop.height / 2 };
+}
+
+export async function cropImage(file: File, crop: CropSettings): Promise<File> {
+  const bitmap = await createImageBitmap(file);
+  const sx = Math.round(crop.x * bitmap.width);
+  const sy = Math.round(crop.y * bitmap.height);
+  const sw = Math.round(crop.width * bitmap.width);
+  const sh = Math.round(crop.height * bitmap.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sw;
+  canvas.height = sh;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is unavailable');
+  }
+  context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, sw, sh);
+  bitmap.close();
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((result) => (result ? resolve(result) : reject(new Error('Canvas encoding failed'))), file.type, 0.92);
+  });
+  return new File([blob], file.name, { type: file.type, lastModified: file.lastModified });
+}
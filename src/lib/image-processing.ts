@@ -0,0 +1,107 @@
+import { ImageProcessingOptions, ProcessedImage, compressImage } from '@/lib/image-compression';
+
+export type { ImageProcessingOptions, ProcessedImage } from '@/lib/image-compression';
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxDimension: 2048,
+  quality: 0.85,
+  minQuality: 0.55,
+  targetSize: 2 * 1024 * 1024,
+};
+
+export const MAX_DIMENSION_OPTIONS = [1080, 1600, 2048, 4096];
+
+export interface ImageProcessingRequest {
+  id: number;
+  file: File;
+  options: ImageProcessingOptions;
+}
+
+export type ImageProcessingResponse =
+  | { id: number; result: ProcessedImage; error?: undefined }
+  | { id: number; error: string; result?: undefined };
+
+// A request the worker has not answered by then is treated as a hung worker
+const WORKER_TIMEOUT = 60_000;
+
+interface PendingRequest {
+  file: File;
+  options: ImageProcessingOptions;
+  resolve: (result: ProcessedImage) => void;
+  reject: (error: Error) => void;
+  timer: number;
+}
+
+let worker: Worker | undefined;
+// Set once the worker has failed, so the rest of the session stays on the main thread
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+function compressOnMainThread(file: File, options: ImageProcessingOptions): Promise<ProcessedImage> {
+  return compressImage(file, options, (width, height) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  });
+}
+
+// A worker that fails to load, crashes or hangs would leave its media stuck in processing,
+// which blocks submitting, so everything it still owed is redone on the main thread
+function abandonWorker(reason: string): void {
+  console.error('Image worker failed, processing on the main thread instead:', reason);
+  worker?.terminate();
+  worker = undefined;
+  workerFailed = true;
+  const requests = Array.from(pending.values());
+  pending.clear();
+  requests.forEach(({ file, options, resolve, reject, timer }) => {
+    window.clearTimeout(timer);
+    compressOnMainThread(file, options).then(resolve, reject);
+  });
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./image-processing.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }: MessageEvent<ImageProcessingResponse>) => {
+      const request = pending.get(data.id);
+      if (!request) return;
+      pending.delete(data.id);
+      window.clearTimeout(request.timer);
+      if (data.error !== undefined) {
+        request.reject(new Error(data.error));
+      } else {
+        request.resolve(data.result);
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      abandonWorker(event.message || 'The worker could not be started');
+    };
+    worker.onmessageerror = () => abandonWorker('A worker message could not be read');
+  }
+  return worker;
+}
+
+function supportsWorkerProcessing(): boolean {
+  return !workerFailed && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+// Resizes and re-encodes off the main thread when the browser allows it
+export function processImage(
+  file: File,
+  options: ImageProcessingOptions = DEFAULT_IMAGE_PROCESSING
+): Promise<ProcessedImage> {
+  if (!supportsWorkerProcessing()) {
+    return compressOnMainThread(file, options);
+  }
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => abandonWorker('Timed out'), WORKER_TIMEOUT);
+    pending.set(id, { file, options, resolve, reject, timer });
+    getWorker().postMessage({ id, file, options } satisfies ImageProcessingRequest);
+  });
+}
@@ -0,0 +1,16 @@
+import { compressImage } from '@/lib/image-compression';
+import type { ImageProcessingRequest, ImageProcessingResponse } from '@/lib/image-processing';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ImageProcessingRequest>) => void) | null;
+  postMessage: (message: ImageProcessingResponse) => void;
+};
+
+scope.onmessage = async ({ data }) => {
+  try {
+    const result = await compressImage(data.file, data.options, (width, height) => new OffscreenCanvas(width, height));
+    scope.postMessage({ id: data.id, result });
+  } catch (error) {
+    scope.postMessage({ id: data.id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,81 @@
+import { ACCEPTED_MEDIA_TYPES, MAX_IMAGE_SIZE, MAX_VIDEO_SIZE, MEDIA_TYPE_LABELS, isVideoFile } from '@/lib/media';
+import { MAX_MEDIA_FILES } from '@/lib/platforms';
+
+export type MediaValidationStatus = 'accepted' | 'wrong-type' | 'too-large' | 'over-count' | 'duplicate';
+
+export interface MediaValidationResult {
+  file: File;
+  status: MediaValidationStatus;
+  reason?: string;
+}
+
+export interface MediaValidationOptions {
+  acceptedTypes?: string[];
+  maxImageSize?: number;
+  maxVideoSize?: number;
+  maxFiles?: number;
+}
+
+export interface MediaValidationSummary {
+  accepted: File[];
+  rejected: MediaValidationResult[];
+  results: MediaValidationResult[];
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+// Browsers give no content hash for free, so name + size + mtime stands in as identity
+export function getFileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function describeTypes(types: string[]): string {
+  return types.map((type) => MEDIA_TYPE_LABELS[type] ?? type.split('/')[1].toUpperCase()).join(', ');
+}
+
+// Checks each incoming file against the current selection, accepting the valid ones in order until the limit is hit
+export function validateMediaFiles(
+  incoming: File[],
+  existing: File[],
+  options: MediaValidationOptions = {}
+): MediaValidationSummary {
+  const {
+    acceptedTypes = ACCEPTED_MEDIA_TYPES,
+    maxImageSize = MAX_IMAGE_SIZE,
+    maxVideoSize = MAX_VIDEO_SIZE,
+    maxFiles = MAX_MEDIA_FILES,
+  } = options;
+  const seen = new Set(existing.map(getFileKey));
+  let remaining = maxFiles - existing.length;
+
+  const results = incoming.map((file): MediaValidationResult => {
+    if (!acceptedTypes.includes(file.type)) {
+      return { file, status: 'wrong-type', reason: `Only ${describeTypes(acceptedTypes)} files are supported` };
+    }
+    const maxSize = isVideoFile(file) ? maxVideoSize : maxImageSize;
+    if (file.size > maxSize) {
+      return { file, status: 'too-large', reason: `${formatFileSize(file.size)} exceeds the ${formatFileSize(maxSize)} limit` };
+    }
+    const key = getFileKey(file);
+    if (seen.has(key)) {
+      return { file, status: 'duplicate', reason: 'Already added' };
+    }
+    if (remaining <= 0) {
+      return { file, status: 'over-count', reason: `Only ${maxFiles} files can be attached` };
+    }
+    seen.add(key);
+    remaining -= 1;
+    return { file, status: 'accepted' };
+  });
+
+  return {
+    accepted: results.filter((result) => result.status === 'accepted').map((result) => result.file),
+    rejected: results.filter((result) => result.status !== 'accepted'),
+    results,
+  };
+}
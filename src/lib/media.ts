@@ -0,0 +1,79 @@
+import type { PlatformCrops } from '@/lib/image-crop';
+import type { VideoMetadata } from '@/lib/video';
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+export const ACCEPTED_VIDEO_TYPES = ['video/mp4', 'video/quicktime'];
+export const ACCEPTED_MEDIA_TYPES = [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES];
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+export const MAX_VIDEO_SIZE = 1024 * 1024 * 1024;
+
+export const MEDIA_TYPE_LABELS: Record<string, string> = {
+  'image/jpeg': 'JPG',
+  'image/png': 'PNG',
+  'video/mp4': 'MP4',
+  'video/quicktime': 'MOV',
+};
+
+export function isVideoFile(file: File): boolean {
+  return ACCEPTED_VIDEO_TYPES.includes(file.type);
+}
+
+// Pulls files out of a clipboard or drag payload, ignoring plain text entries
+export function getTransferFiles(transfer: DataTransfer | null): File[] {
+  if (!transfer) return [];
+  if (transfer.files.length > 0) return Array.from(transfer.files);
+  return Array.from(transfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => file !== null);
+}
+
+export interface VideoCover {
+  file: File;
+  previewUrl: string;
+  time: number;
+}
+
+export interface MediaItem {
+  id: string;
+  kind: 'image' | 'video';
+  // The file as the user supplied it, kept for duplicate checks and re-processing
+  original: File;
+  // The file that is actually uploaded; equals `original` until processing finishes
+  file: File;
+  previewUrl: string;
+  status: 'processing' | 'ready' | 'failed';
+  crops: PlatformCrops;
+  altText: string;
+  video?: VideoMetadata;
+  cover?: VideoCover;
+  error?: string;
+}
+
+export function createMediaItem(file: File): MediaItem {
+  return {
+    id: crypto.randomUUID(),
+    kind: isVideoFile(file) ? 'video' : 'image',
+    original: file,
+    file,
+    previewUrl: URL.createObjectURL(file),
+    status: 'processing',
+    crops: {},
+    altText: '',
+  };
+}
+
+export function revokeMediaItem(item: MediaItem): void {
+  URL.revokeObjectURL(item.previewUrl);
+  if (item.cover) URL.revokeObjectURL(item.cover.previewUrl);
+}
+
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
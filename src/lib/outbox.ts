@@ -0,0 +1,221 @@
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from '@/lib/database';
+import { DeliveryKind, loggedFetch } from '@/lib/delivery-log';
+import { StoredMediaItem, toStoredMedia } from '@/lib/drafts';
+import type { MediaItem } from '@/lib/media';
+import { MediaSummary, PostDetails, PostOutcome, describeNetworkError, describeResponse, recordPost } from '@/lib/posts';
+import { EncodedPayload, MediaUploadError, PostFields, encodePayload, uploadMediaFile } from '@/lib/webhook-payload';
+import { WebhookProfile, buildWebhookRequest, getProfileHeaders, loadWebhookProfiles } from '@/lib/webhook-profiles';
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_RETRY_DELAY = 5_000;
+const MAX_RETRY_DELAY = 10 * 60_000;
+
+// Failed entries have used up their automatic attempts and wait for a manual retry or discard
+export type OutboxStatus = 'pending' | 'failed';
+
+// A post that could not be encoded yet, e.g. its media could not be uploaded while offline
+export interface UnencodedPost {
+  fields: PostFields;
+  media: MediaItem[];
+}
+
+export interface OutboxEntry {
+  // Same as the post id, so history and outbox refer to the same submission
+  id: string;
+  details: PostDetails;
+  media: MediaSummary;
+  // Serialized once so every attempt sends the same bytes; signatures are added per attempt.
+  // Left out while `unencoded` is set, until an attempt manages to encode the post
+  body?: Blob | string;
+  headers: Record<string, string>;
+  unencoded?: { fields: PostFields; media: StoredMediaItem[] };
+  attempts: number;
+  nextAttemptAt: number;
+  status: OutboxStatus;
+  lastError: string;
+  createdAt: number;
+}
+
+const listeners = new Set<() => void>();
+let processing: Promise<void> | null = null;
+// Deliveries under way by entry id, shared by the processor and manual retries
+const inFlight = new Map<string, Promise<PostOutcome | undefined>>();
+
+export function subscribeToOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+// Exponential backoff with equal jitter, so a batch of queued posts does not retry in lockstep
+export function getRetryDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+// A 4xx means the request itself is wrong, and sending it again will not change the answer
+export function isRetryable(outcome: PostOutcome): boolean {
+  return outcome.status === 'network-error' || (outcome.httpStatus ?? 0) >= 500;
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+// Encoding only touches the network for media uploads, which fail like a delivery would
+export function describeEncodingError(error: unknown): PostOutcome {
+  const { httpStatus } = error as Partial<MediaUploadError>;
+  if (!httpStatus) return describeNetworkError(error);
+  return { status: 'http-error', httpStatus, responseBody: error instanceof Error ? error.message : String(error) };
+}
+
+export function encodePostForWebhook(webhook: WebhookProfile, fields: PostFields, media: MediaItem[]): Promise<EncodedPayload> {
+  return encodePayload(webhook.payloadFormat, fields, media, {
+    mapping: webhook.mapping,
+    uploadMedia: (file) => uploadMediaFile(webhook.mediaUploadUrl, file, getProfileHeaders(webhook)),
+  });
+}
+
+function describeOutcome(outcome: PostOutcome): string {
+  return outcome.httpStatus ? `HTTP ${outcome.httpStatus}` : outcome.responseBody || 'Network error';
+}
+
+// Looks the webhook up again on every attempt so edited headers and secrets apply to queued posts
+export async function sendPost(
+  details: PostDetails,
+  body: FormData | Blob | string,
+  headers: Record<string, string>,
+  kind: DeliveryKind = 'submission'
+): Promise<PostOutcome> {
+  const profile = loadWebhookProfiles().find(({ id }) => id === details.webhookProfileId);
+  try {
+    const request = await buildWebhookRequest(profile, body, headers);
+    const response = await loggedFetch(kind, details.webhookUrl, request, details.title);
+    return await describeResponse(response);
+  } catch (error) {
+    return describeNetworkError(error);
+  }
+}
+
+async function serializePayload(payload: EncodedPayload): Promise<Pick<OutboxEntry, 'body' | 'headers'>> {
+  if (typeof payload.body === 'string') return { body: payload.body, headers: payload.headers };
+  // FormData cannot be stored, but its encoded form can, as long as the boundary travels with it
+  const encoded = new Response(payload.body);
+  return {
+    body: await encoded.blob(),
+    headers: { ...payload.headers, 'Content-Type': encoded.headers.get('Content-Type') ?? '' },
+  };
+}
+
+// Queues the encoded payload, or the post itself when it could not be encoded yet
+export async function enqueuePost(
+  details: PostDetails,
+  media: MediaSummary,
+  content: EncodedPayload | UnencodedPost,
+  outcome: PostOutcome
+): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    id: details.id,
+    details,
+    media,
+    ...('fields' in content
+      ? { headers: {}, unencoded: { fields: content.fields, media: content.media.map(toStoredMedia) } }
+      : await serializePayload(content)),
+    attempts: 1,
+    nextAttemptAt: Date.now() + getRetryDelay(1),
+    status: 'pending',
+    lastError: describeOutcome(outcome),
+    createdAt: Date.now(),
+  };
+  await putRecord(STORES.outbox, entry);
+  notify();
+  return entry;
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await getAllRecords<OutboxEntry>(STORES.outbox);
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Encoded with the webhook's current settings; previews are not needed, so no object URLs are created
+async function encodeQueuedPost(entry: OutboxEntry): Promise<OutboxEntry> {
+  if (!entry.unencoded) return entry;
+  const webhook = loadWebhookProfiles().find(({ id }) => id === entry.details.webhookProfileId);
+  if (!webhook) throw new Error('The webhook for this post was deleted');
+  const media = entry.unencoded.media.map(({ cover, ...item }): MediaItem => ({
+    ...item,
+    previewUrl: '',
+    cover: cover && { ...cover, previewUrl: '' },
+  }));
+  const payload = await encodePostForWebhook(webhook, entry.unencoded.fields, media);
+  return { ...entry, ...(await serializePayload(payload)), unencoded: undefined };
+}
+
+async function attemptDelivery(entry: OutboxEntry): Promise<PostOutcome> {
+  let current = entry;
+  let outcome: PostOutcome;
+  try {
+    current = await encodeQueuedPost(entry);
+    outcome = await sendPost(current.details, current.body, current.headers, 'retry');
+  } catch (error) {
+    outcome = describeEncodingError(error);
+  }
+  await recordPost(current.details, outcome, current.media);
+
+  const attempts = current.attempts + 1;
+  if (!isRetryable(outcome)) {
+    await deleteRecord(STORES.outbox, current.id);
+  } else {
+    // Once encoded, the stored payload is reused so media is not uploaded again
+    await putRecord(STORES.outbox, {
+      ...current,
+      attempts,
+      lastError: describeOutcome(outcome),
+      status: attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending',
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    });
+  }
+  notify();
+  return outcome;
+}
+
+// Never sends the same entry twice at once: a second caller gets the delivery already under way.
+// The entry is read again inside the guard, since an earlier delivery may have sent or rescheduled it.
+function deliver(id: string, isDue: (entry: OutboxEntry) => boolean = () => true): Promise<PostOutcome | undefined> {
+  const running = inFlight.get(id);
+  if (running) return running;
+  const delivery = (async () => {
+    const entry = await getRecord<OutboxEntry>(STORES.outbox, id);
+    return entry && isDue(entry) ? attemptDelivery(entry) : undefined;
+  })().finally(() => inFlight.delete(id));
+  inFlight.set(id, delivery);
+  return delivery;
+}
+
+// Sends every pending entry that is due; `force` ignores the backoff, e.g. right after reconnecting
+export function processOutbox({ force = false }: { force?: boolean } = {}): Promise<void> {
+  if (processing) return processing;
+  processing = (async () => {
+    const isDue = (entry: OutboxEntry) => entry.status === 'pending' && (force || entry.nextAttemptAt <= Date.now());
+    const due = (await listOutbox()).filter(isDue);
+    for (const { id } of due) {
+      if (isOffline()) break;
+      await deliver(id, isDue);
+    }
+  })().finally(() => {
+    processing = null;
+  });
+  return processing;
+}
+
+export function retryOutboxEntry(id: string): Promise<PostOutcome | undefined> {
+  return deliver(id);
+}
+
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await deleteRecord(STORES.outbox, id);
+  notify();
+}
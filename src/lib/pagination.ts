@@ -0,0 +1,25 @@
+export const DEFAULT_PAGE_SIZE = 10;
+
+export type PageRangeItem = number | 'ellipsis';
+
+export function getPageCount(total: number, pageSize = DEFAULT_PAGE_SIZE): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+export function paginate<T>(items: T[], page: number, pageSize = DEFAULT_PAGE_SIZE): T[] {
+  return items.slice((page - 1) * pageSize, page * pageSize);
+}
+
+// First, last and the pages around the current one, with gaps collapsed to an ellipsis
+export function getPageRange(page: number, pageCount: number, siblings = 1): PageRangeItem[] {
+  const range: PageRangeItem[] = [];
+  for (let current = 1; current <= pageCount; current++) {
+    const nearCurrent = Math.abs(current - page) <= siblings;
+    if (current === 1 || current === pageCount || nearCurrent) {
+      range.push(current);
+    } else if (range[range.length - 1] !== 'ellipsis') {
+      range.push('ellipsis');
+    }
+  }
+  return range;
+}
@@ -0,0 +1,212 @@
+import { z } from 'zod';
+
+// Top-level fields of the standard payload that a mapping can pick from
+export const MAPPING_SOURCES = {
+  payloadVersion: 'Payload version',
+  postId: 'Post ID',
+  idempotencyKey: 'Idempotency key',
+  postTitle: 'Title',
+  caption: 'Caption',
+  hashtags: 'Hashtags (text)',
+  hashtagList: 'Hashtags (list)',
+  platforms: 'Platforms',
+  variants: 'Per-platform captions',
+  scheduledDate: 'Scheduled date (UTC)',
+  timezone: 'Time zone',
+  scheduledLocalTime: 'Scheduled local time',
+  utcOffset: 'UTC offset',
+  recurrenceRule: 'Recurrence rule',
+  recurrenceOccurrences: 'Recurrence dates',
+  media: 'Media (JSON formats only)',
+} as const;
+
+export type MappingSource = keyof typeof MAPPING_SOURCES;
+export const MAPPING_SOURCE_IDS = Object.keys(MAPPING_SOURCES) as [MappingSource, ...MappingSource[]];
+
+export const MAPPING_TRANSFORMS = {
+  none: 'As is',
+  join: 'Join list with commas',
+  json: 'JSON string',
+} as const;
+
+export type MappingTransform = keyof typeof MAPPING_TRANSFORMS;
+
+// Dot-separated keys; in multipart payloads the whole path is used as the form key
+const TARGET_PATH = /^[^.\s]+(\.[^.\s]+)*$/;
+
+// Segments that would walk into the object prototype instead of creating a key
+const RESERVED_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function hasReservedSegment(path: string): boolean {
+  return path.split('.').some((segment) => RESERVED_SEGMENTS.has(segment));
+}
+
+export const mappingEntrySchema = z.object({
+  source: z.enum(MAPPING_SOURCE_IDS),
+  target: z.string().trim().min(1, 'Target is required').regex(TARGET_PATH, 'Use dot-separated keys, e.g. post.title')
+    .refine((target) => !hasReservedSegment(target), 'Keys cannot be __proto__, constructor or prototype'),
+  transform: z.enum(Object.keys(MAPPING_TRANSFORMS) as [MappingTransform, ...MappingTransform[]]),
+});
+
+export type MappingEntry = z.infer<typeof mappingEntrySchema>;
+
+export const MAPPING_PRESET_IDS = ['standard', 'n8n', 'zapier', 'make', 'pipedream', 'custom'] as const;
+export type MappingPresetId = (typeof MAPPING_PRESET_IDS)[number];
+
+export const payloadMappingSchema = z.object({
+  preset: z.enum(MAPPING_PRESET_IDS),
+  // Only used by the custom preset; built-in presets keep their own entries
+  fields: z.array(mappingEntrySchema),
+}).superRefine((mapping, ctx) => {
+  if (mapping.preset !== 'custom') return;
+  if (mapping.fields.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields'], message: 'Map at least one field' });
+  }
+  const seen = new Set<string>();
+  mapping.fields.forEach(({ target }, index) => {
+    if (seen.has(target)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', index, 'target'], message: 'Each target can only be used once' });
+    }
+    seen.add(target);
+  });
+});
+
+export type PayloadMapping = z.infer<typeof payloadMappingSchema>;
+
+export const STANDARD_MAPPING: PayloadMapping = { preset: 'standard', fields: [] };
+
+const entry = (source: MappingSource, target: string, transform: MappingTransform = 'none'): MappingEntry => ({
+  source,
+  target,
+  transform,
+});
+
+export const MAPPING_PRESETS: Record<MappingPresetId, { label: string; description: string; fields: MappingEntry[] }> = {
+  standard: {
+    label: 'Standard fields',
+    description: 'The documented payload, unchanged.',
+    fields: [],
+  },
+  n8n: {
+    label: 'n8n',
+    description: 'Grouped into post, schedule and media objects, read as {{ $json.body.post.title }}.',
+    fields: [
+      entry('postId', 'post.id'),
+      entry('idempotencyKey', 'post.idempotencyKey'),
+      entry('postTitle', 'post.title'),
+      entry('caption', 'post.caption'),
+      entry('hashtagList', 'post.hashtags'),
+      entry('platforms', 'post.platforms'),
+      entry('variants', 'post.variants'),
+      entry('scheduledDate', 'schedule.at'),
+      entry('timezone', 'schedule.timezone'),
+      entry('scheduledLocalTime', 'schedule.localTime'),
+      entry('recurrenceRule', 'schedule.rrule'),
+      entry('recurrenceOccurrences', 'schedule.occurrences'),
+      entry('media', 'media'),
+      entry('payloadVersion', 'version'),
+    ],
+  },
+  zapier: {
+    label: 'Zapier',
+    description: 'Flat snake_case keys with lists joined, so every value shows up as its own field in the Zap editor.',
+    fields: [
+      entry('postId', 'post_id'),
+      entry('idempotencyKey', 'idempotency_key'),
+      entry('postTitle', 'title'),
+      entry('caption', 'caption'),
+      entry('hashtags', 'hashtags'),
+      entry('platforms', 'platforms', 'join'),
+      entry('scheduledDate', 'scheduled_at'),
+      entry('timezone', 'timezone'),
+      entry('scheduledLocalTime', 'scheduled_local_time'),
+      entry('utcOffset', 'utc_offset'),
+      entry('recurrenceRule', 'recurrence_rule'),
+      entry('variants', 'variants_json', 'json'),
+      entry('media', 'media'),
+      entry('payloadVersion', 'payload_version'),
+    ],
+  },
+  make: {
+    label: 'Make',
+    description: 'Flat camelCase keys with lists kept as arrays, ready for Make iterators.',
+    fields: [
+      entry('postId', 'postId'),
+      entry('idempotencyKey', 'idempotencyKey'),
+      entry('postTitle', 'title'),
+      entry('caption', 'text'),
+      entry('hashtagList', 'hashtags'),
+      entry('platforms', 'platforms'),
+      entry('variants', 'variants'),
+      entry('scheduledDate', 'scheduledAt'),
+      entry('timezone', 'timezone'),
+      entry('recurrenceOccurrences', 'occurrences'),
+      entry('media', 'media'),
+      entry('payloadVersion', 'version'),
+    ],
+  },
+  pipedream: {
+    label: 'Pipedream',
+    description: 'An event envelope read as steps.trigger.event.body.data.title.',
+    fields: [
+      entry('postId', 'id'),
+      entry('idempotencyKey', 'idempotency_key'),
+      entry('postTitle', 'data.title'),
+      entry('caption', 'data.caption'),
+      entry('hashtagList', 'data.hashtags'),
+      entry('platforms', 'data.platforms'),
+      entry('variants', 'data.variants'),
+      entry('scheduledDate', 'data.scheduled_at'),
+      entry('timezone', 'data.timezone'),
+      entry('recurrenceRule', 'data.rrule'),
+      entry('media', 'data.media'),
+      entry('payloadVersion', 'version'),
+    ],
+  },
+  custom: {
+    label: 'Custom template',
+    description: 'Pick each field and where it goes.',
+    fields: [],
+  },
+};
+
+export function getMappingEntries(mapping: PayloadMapping): MappingEntry[] {
+  return mapping.preset === 'custom' ? mapping.fields : MAPPING_PRESETS[mapping.preset].fields;
+}
+
+function transformValue(value: unknown, transform: MappingTransform): unknown {
+  if (transform === 'join') return Array.isArray(value) ? value.join(', ') : value;
+  if (transform === 'json') return JSON.stringify(value);
+  return value;
+}
+
+// Target path and value for each mapped field that has a value in this post
+export function resolveMapping(mapping: PayloadMapping, source: Record<string, unknown>): [string, unknown][] {
+  if (mapping.preset === 'standard') {
+    return Object.entries(source).filter(([, value]) => value !== undefined);
+  }
+  const entries = getMappingEntries(mapping)
+    .filter(({ source: key }) => source[key] !== undefined)
+    .map(({ source: key, target, transform }): [string, unknown] => [target, transformValue(source[key], transform)]);
+  // Test requests stay flagged whatever the mapping, so a flow can always filter them out
+  return source.test ? [...entries, ['test', true]] : entries;
+}
+
+// The live preview runs this on unvalidated templates, so reserved paths are skipped here too,
+// and every level has no prototype that a path could reach
+export function buildMappedObject(entries: [string, unknown][]): Record<string, unknown> {
+  const result: Record<string, unknown> = Object.create(null);
+  entries.forEach(([path, value]) => {
+    if (hasReservedSegment(path)) return;
+    const keys = path.split('.');
+    const last = keys.pop();
+    let node = result;
+    keys.forEach((key) => {
+      // A scalar already sitting on this path is replaced rather than silently dropping the field
+      if (typeof node[key] !== 'object' || node[key] === null || Array.isArray(node[key])) node[key] = Object.create(null);
+      node = node[key] as Record<string, unknown>;
+    });
+    node[last] = value;
+  });
+  return result;
+}
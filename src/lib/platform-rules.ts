@@ -0,0 +1,70 @@
+import type { VideoLimits } from '@/lib/video';
+
+export interface PlatformRules {
+  captionMax: number;
+  // Limits a platform does not enforce are left undefined
+  hashtagMax?: number;
+  mentionMax?: number;
+  mediaMax: number;
+  // Platforms that cannot publish a text-only post
+  requiresMedia?: boolean;
+  video: VideoLimits;
+}
+
+export interface PostContent {
+  caption: string;
+  hashtags?: string;
+}
+
+export interface RuleUsage {
+  used: number;
+  max?: number;
+  over: boolean;
+}
+
+export interface PostUsage {
+  caption: RuleUsage;
+  hashtags: RuleUsage;
+  mentions: RuleUsage;
+  media: RuleUsage;
+}
+
+const HASHTAG_PATTERN = /(^|[^\w&])#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /(^|[^\w])@[\w.]+/g;
+
+// Hashtags are appended below the caption when posting, so limits apply to the combined text
+export function composePostText({ caption, hashtags }: PostContent): string {
+  const tags = hashtags?.trim();
+  return tags ? `${caption.trimEnd()}\n\n${tags}` : caption;
+}
+
+// Counts code points rather than UTF-16 units so emoji count as one character
+export function countCharacters(text: string): number {
+  return Array.from(text).length;
+}
+
+export function countHashtags(text: string): number {
+  return text.match(HASHTAG_PATTERN)?.length ?? 0;
+}
+
+export function countMentions(text: string): number {
+  return text.match(MENTION_PATTERN)?.length ?? 0;
+}
+
+function usage(used: number, max?: number): RuleUsage {
+  return { used, max, over: max !== undefined && used > max };
+}
+
+export function measurePost(rules: PlatformRules, content: PostContent, mediaCount: number): PostUsage {
+  const text = composePostText(content);
+  return {
+    caption: usage(countCharacters(text), rules.captionMax),
+    hashtags: usage(countHashtags(text), rules.hashtagMax),
+    mentions: usage(countMentions(text), rules.mentionMax),
+    media: usage(mediaCount, rules.mediaMax),
+  };
+}
+
+export function isOverLimit(postUsage: PostUsage): boolean {
+  return Object.values(postUsage).some((rule) => rule.over);
+}
@@ -0,0 +1,193 @@
+import type { CSSProperties, ComponentType } from 'react';
+import { AtSign, Cloud, Facebook, Instagram, Linkedin, MessagesSquare, Music2, Pin, Twitter } from 'lucide-react';
+
+import type { AspectRatioId } from '@/lib/image-crop';
+import { ACCEPTED_IMAGE_TYPES, ACCEPTED_VIDEO_TYPES } from '@/lib/media';
+import type { PlatformRules } from '@/lib/platform-rules';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+export interface PlatformDefinition {
+  id: string;
+  label: string;
+  icon: ComponentType<{ className?: string; style?: CSSProperties }>;
+  // HSL channels, in the same format as the theme variables in index.css
+  brandColor: string;
+  brandForeground: string;
+  rules: PlatformRules;
+  // MIME types the platform will publish
+  mediaTypes: string[];
+  defaultAspect: AspectRatioId;
+  // Where the feed collapses the caption behind a "more" link, as the preview shows it
+  feedFold?: { at: number; ellipsis: string; label: string };
+}
+
+// Adding a platform only takes an entry here; the form, validation, previews and payload read from this list
+export const PLATFORMS: PlatformDefinition[] = [
+  {
+    id: 'facebook',
+    label: 'Facebook',
+    icon: Facebook,
+    brandColor: '220 47% 48%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      captionMax: 63206,
+      mediaMax: 10,
+      video: { minDuration: 1, maxDuration: 240 * 60, maxSize: GB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '1.91:1',
+    feedFold: { at: 477, ellipsis: '… ', label: 'See more' },
+  },
+  {
+    id: 'instagram',
+    label: 'Instagram',
+    icon: Instagram,
+    brandColor: '315 100% 65%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      captionMax: 2200,
+      hashtagMax: 30,
+      mentionMax: 20,
+      mediaMax: 10,
+      requiresMedia: true,
+      video: { minDuration: 3, maxDuration: 15 * 60, maxSize: 300 * MB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '4:5',
+    feedFold: { at: 125, ellipsis: '… ', label: 'more' },
+  },
+  {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    icon: Linkedin,
+    brandColor: '201 100% 45%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      captionMax: 3000,
+      mediaMax: 9,
+      video: { minDuration: 3, maxDuration: 30 * 60, maxSize: 500 * MB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '1.91:1',
+    feedFold: { at: 210, ellipsis: '…', label: 'see more' },
+  },
+  {
+    id: 'x',
+    label: 'X',
+    icon: Twitter,
+    brandColor: '0 0% 7%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      captionMax: 280,
+      mediaMax: 4,
+      video: { minDuration: 0.5, maxDuration: 140, maxSize: 512 * MB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '1.91:1',
+  },
+  {
+    id: 'threads',
+    label: 'Threads',
+    icon: AtSign,
+    brandColor: '0 0% 0%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      captionMax: 500,
+      // Threads links a post to a single topic tag
+      hashtagMax: 1,
+      mediaMax: 20,
+      video: { minDuration: 0, maxDuration: 5 * 60, maxSize: GB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '4:5',
+  },
+  {
+    id: 'tiktok',
+    label: 'TikTok',
+    icon: Music2,
+    brandColor: '348 99% 58%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      captionMax: 2200,
+      mediaMax: 35,
+      requiresMedia: true,
+      video: { minDuration: 3, maxDuration: 10 * 60, maxSize: 4 * GB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '9:16',
+  },
+  {
+    id: 'pinterest',
+    label: 'Pinterest',
+    icon: Pin,
+    brandColor: '351 100% 45%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      captionMax: 500,
+      mediaMax: 5,
+      requiresMedia: true,
+      video: { minDuration: 4, maxDuration: 15 * 60, maxSize: 2 * GB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '4:5',
+  },
+  {
+    id: 'bluesky',
+    label: 'Bluesky',
+    icon: Cloud,
+    brandColor: '209 100% 50%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      captionMax: 300,
+      mediaMax: 4,
+      video: { minDuration: 0, maxDuration: 3 * 60, maxSize: 100 * MB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '1:1',
+  },
+  {
+    id: 'mastodon',
+    label: 'Mastodon',
+    icon: MessagesSquare,
+    brandColor: '240 100% 69%',
+    brandForeground: '0 0% 100%',
+    rules: {
+      // Defaults of a stock Mastodon server; instances can raise them
+      captionMax: 500,
+      mediaMax: 4,
+      video: { minDuration: 0, maxDuration: Number.POSITIVE_INFINITY, maxSize: 99 * MB },
+    },
+    mediaTypes: [...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES],
+    defaultAspect: '1.91:1',
+  },
+];
+
+export const PLATFORM_IDS = PLATFORMS.map(({ id }) => id);
+
+export function getPlatform(id: string): PlatformDefinition | undefined {
+  return PLATFORMS.find((platform) => platform.id === id);
+}
+
+// Registry order, so payloads and lists don't depend on the order boxes were ticked
+export function getPlatforms(ids: string[]): PlatformDefinition[] {
+  return PLATFORMS.filter(({ id }) => ids.includes(id));
+}
+
+// The most files any platform takes in one post, so the composer never caps below a platform's own limit
+export const MAX_MEDIA_FILES = Math.max(...PLATFORMS.map(({ rules }) => rules.mediaMax));
+
+// How many files every selected platform accepts; before any is selected, the overall maximum
+export function getMediaLimit(ids: string[]): number {
+  const selected = getPlatforms(ids);
+  return selected.length > 0 ? Math.min(...selected.map(({ rules }) => rules.mediaMax)) : MAX_MEDIA_FILES;
+}
+
+// Feeds the `platform` Tailwind color, so brand colors need no per-platform classes
+export function platformStyle(platform: PlatformDefinition): CSSProperties {
+  return {
+    '--platform': platform.brandColor,
+    '--platform-foreground': platform.brandForeground,
+  } as CSSProperties;
+}
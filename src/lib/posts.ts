@@ -0,0 +1,206 @@
+import { endOfDay, startOfDay } from 'date-fns';
+
+import { STORES, getAllRecords, putRecord } from '@/lib/database';
+import type { MediaItem } from '@/lib/media';
+import { loggedFetch } from '@/lib/delivery-log';
+import { encodeEventPayload } from '@/lib/webhook-payload';
+import { EMPTY_WEBHOOK_PROFILE, WebhookProfile, buildWebhookRequest } from '@/lib/webhook-profiles';
+import { formatUtcOffset, formatWallClock, getTimeZoneOffset, utcToZonedWallTime } from '@/lib/timezones';
+
+export type PostStatus = 'success' | 'http-error' | 'network-error';
+
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  success: 'Delivered',
+  'http-error': 'HTTP error',
+  'network-error': 'Network error',
+};
+
+// Enough of the webhook's reply to debug with, without filling the database
+export const MAX_RESPONSE_BODY_LENGTH = 4000;
+const THUMBNAIL_SIZE = 96;
+
+export interface PostRecord {
+  id: string;
+  title: string;
+  caption: string;
+  platforms: string[];
+  // UTC instant, plus the zone it was scheduled in
+  scheduledAt: string;
+  timezone: string;
+  // Set for a repeating post; the time above is then the series' first occurrence
+  recurrenceRule?: string;
+  webhookUrl: string;
+  // Saved webhook the post went to, so follow-up events can reuse its headers
+  webhookProfileId?: string;
+  submittedAt: number;
+  status: PostStatus;
+  httpStatus?: number;
+  responseBody: string;
+  mediaCount: number;
+  // Small JPEG data URL of the first image or video cover
+  thumbnail?: string;
+  // Sent with the post, and compared against before a likely duplicate goes out again
+  idempotencyKey?: string;
+  contentHash?: string;
+}
+
+export type PostDetails = Pick<
+  PostRecord,
+  'id' | 'title' | 'caption' | 'platforms' | 'scheduledAt' | 'timezone' | 'recurrenceRule' | 'webhookUrl' | 'webhookProfileId' | 'idempotencyKey' | 'contentHash'
+>;
+
+export type PostOutcome = Pick<PostRecord, 'status' | 'httpStatus' | 'responseBody'>;
+
+export type MediaSummary = Pick<PostRecord, 'mediaCount' | 'thumbnail'>;
+
+export async function describeResponse(response: Response): Promise<PostOutcome> {
+  let body = '';
+  try {
+    body = await response.clone().text();
+  } catch {
+    // An unreadable body still leaves the status worth recording
+  }
+  return {
+    status: response.ok ? 'success' : 'http-error',
+    httpStatus: response.status,
+    responseBody: body.slice(0, MAX_RESPONSE_BODY_LENGTH),
+  };
+}
+
+export function describeNetworkError(error: unknown): PostOutcome {
+  return {
+    status: 'network-error',
+    responseBody: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export async function createThumbnail(media: MediaItem[]): Promise<string | undefined> {
+  const first = media[0];
+  const source = first?.kind === 'video' ? first.cover?.file : first?.file;
+  if (!source) return undefined;
+  try {
+    const bitmap = await createImageBitmap(source);
+    const scale = THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function summarizeMedia(media: MediaItem[]): Promise<MediaSummary> {
+  return { mediaCount: media.length, thumbnail: await createThumbnail(media) };
+}
+
+// History is best effort: a storage failure is logged rather than failing the submission
+export async function recordPost(details: PostDetails, outcome: PostOutcome, media: MediaSummary): Promise<PostRecord> {
+  const record: PostRecord = {
+    ...details,
+    ...outcome,
+    ...media,
+    submittedAt: Date.now(),
+  };
+  try {
+    await putRecord(STORES.posts, record);
+  } catch (error) {
+    console.error('Could not save post history:', error);
+  }
+  return record;
+}
+
+export function createPostId(): string {
+  return crypto.randomUUID();
+}
+
+export async function listPosts(): Promise<PostRecord[]> {
+  const posts = await getAllRecords<PostRecord>(STORES.posts);
+  return posts.sort((a, b) => b.submittedAt - a.submittedAt);
+}
+
+export interface PostFilters {
+  platform: string;
+  status: PostStatus | 'all';
+  // Range of scheduled dates, inclusive of both days
+  from?: Date;
+  to?: Date;
+}
+
+export const DEFAULT_POST_FILTERS: PostFilters = { platform: 'all', status: 'all' };
+
+export type PostSortKey = 'title' | 'scheduledAt' | 'submittedAt' | 'httpStatus';
+
+export interface PostSort {
+  key: PostSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export function filterPosts(posts: PostRecord[], { platform, status, from, to }: PostFilters): PostRecord[] {
+  const start = from && startOfDay(from).getTime();
+  const end = (to ?? from) && endOfDay(to ?? from).getTime();
+  return posts.filter((post) => {
+    const scheduled = new Date(post.scheduledAt).getTime();
+    return (platform === 'all' || post.platforms.includes(platform))
+      && (status === 'all' || post.status === status)
+      && (start === undefined || scheduled >= start)
+      && (end === undefined || scheduled <= end);
+  });
+}
+
+export function sortPosts(posts: PostRecord[], { key, direction }: PostSort): PostRecord[] {
+  const value = (post: PostRecord): string | number => {
+    if (key === 'title') return post.title.toLocaleLowerCase();
+    if (key === 'scheduledAt') return new Date(post.scheduledAt).getTime();
+    if (key === 'httpStatus') return post.httpStatus ?? 0;
+    return post.submittedAt;
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...posts].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    return left < right ? -sign : left > right ? sign : 0;
+  });
+}
+
+// Tells the post's webhook about the new time, and only keeps the change locally once it has accepted it.
+// The event goes out in the webhook's own format and mapping, so a flow reads it like the post itself.
+export async function reschedulePost(
+  post: PostRecord,
+  scheduledAt: Date,
+  webhook?: WebhookProfile
+): Promise<PostRecord> {
+  // Moving one slot would shift only the first occurrence and leave the rest of the series behind
+  if (post.recurrenceRule) {
+    throw new Error('Recurring posts cannot be moved on the calendar');
+  }
+  const updated = { ...post, scheduledAt: scheduledAt.toISOString() };
+  const { payloadFormat, mapping } = webhook ?? EMPTY_WEBHOOK_PROFILE;
+  const payload = encodeEventPayload(payloadFormat, {
+    event: 'post.rescheduled',
+    fields: {
+      postId: post.id,
+      postTitle: post.title,
+      platforms: post.platforms,
+      scheduledDate: updated.scheduledAt,
+      timezone: post.timezone,
+      scheduledLocalTime: formatWallClock(utcToZonedWallTime(scheduledAt, post.timezone)),
+      utcOffset: formatUtcOffset(getTimeZoneOffset(scheduledAt, post.timezone)),
+    },
+    details: { previousScheduledDate: post.scheduledAt },
+  }, { mapping });
+  const request = await buildWebhookRequest(webhook, payload.body, payload.headers);
+  let response: Response;
+  try {
+    response = await loggedFetch('reschedule', post.webhookUrl, request, post.title);
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'The webhook could not be reached');
+  }
+  if (!response.ok) {
+    throw new Error(`The webhook responded with ${response.status}`);
+  }
+  await putRecord(STORES.posts, updated);
+  return updated;
+}
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { addDays, addMonths, addWeeks, endOfDay, getDay, lastDayOfMonth, set, startOfMonth, startOfWeek } from 'date-fns';
+
+import { zonedWallTimeToDate } from '@/lib/timezones';
+
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+// -1 is RFC 5545 for "last"; a fifth weekday does not exist in every month so it is not offered
+export const MONTHLY_POSITIONS = [1, 2, 3, 4, -1] as const;
+
+export const POSITION_LABELS: Record<number, string> = {
+  1: 'First',
+  2: 'Second',
+  3: 'Third',
+  4: 'Fourth',
+  [-1]: 'Last',
+};
+
+export const MAX_OCCURRENCES = 365;
+
+// How many expanded timestamps travel with the webhook payload
+export const PAYLOAD_OCCURRENCES = 10;
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['none', 'daily', 'weekly', 'monthly']),
+  interval: z.number().int().min(1, 'Repeat at least every 1').max(99, 'Interval must be 99 or less'),
+  weekdays: z.array(z.enum(WEEKDAYS)),
+  monthlyPosition: z.number().int(),
+  monthlyWeekday: z.enum(WEEKDAYS),
+  endType: z.enum(['count', 'until']),
+  count: z.number().int().min(1, 'Repeat at least once').max(MAX_OCCURRENCES, `At most ${MAX_OCCURRENCES} occurrences`),
+  until: z.date().optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.frequency === 'weekly' && rule.weekdays.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['weekdays'], message: 'Pick at least one weekday' });
+  }
+  if (rule.frequency !== 'none' && rule.endType === 'until' && !rule.until) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['until'], message: 'Pick an end date' });
+  }
+});
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+export const DEFAULT_RECURRENCE: Recurrence = {
+  frequency: 'none',
+  interval: 1,
+  weekdays: [],
+  monthlyPosition: 1,
+  monthlyWeekday: 'MO',
+  endType: 'count',
+  count: 4,
+};
+
+export function weekdayOf(date: Date): Weekday {
+  // date-fns counts from Sunday, RRULE lists from Monday
+  return WEEKDAYS[(getDay(date) + 6) % 7];
+}
+
+export function monthlyPositionOf(date: Date): number {
+  const position = Math.ceil(date.getDate() / 7);
+  return position > 4 ? -1 : position;
+}
+
+// Fills in weekday defaults from the first post so switching frequency gives a sensible rule
+export function withStartDefaults(rule: Recurrence, start: Date): Recurrence {
+  return {
+    ...rule,
+    weekdays: rule.weekdays.length ? rule.weekdays : [weekdayOf(start)],
+    monthlyWeekday: rule.frequency === 'monthly' ? rule.monthlyWeekday : weekdayOf(start),
+    monthlyPosition: rule.frequency === 'monthly' ? rule.monthlyPosition : monthlyPositionOf(start),
+  };
+}
+
+// UNTIL must be UTC when DTSTART carries a TZID, so close out the end day in the target zone
+function formatRRuleUntil(until: Date, timeZone: string): string {
+  return zonedWallTimeToDate(endOfDay(until), timeZone).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// RFC 5545 RRULE value (without the "RRULE:" prefix); the first post is the DTSTART
+export function buildRRule(rule: Recurrence, timeZone: string): string | undefined {
+  if (rule.frequency === 'none') return undefined;
+
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.frequency === 'weekly') {
+    parts.push(`BYDAY=${WEEKDAYS.filter((day) => rule.weekdays.includes(day)).join(',')}`);
+  }
+  if (rule.frequency === 'monthly') {
+    parts.push(`BYDAY=${rule.monthlyPosition}${rule.monthlyWeekday}`);
+  }
+  if (rule.endType === 'count') {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${formatRRuleUntil(rule.until, timeZone)}`);
+  }
+  return parts.join(';');
+}
+
+function nthWeekdayOfMonth(month: Date, weekday: Weekday, position: number): Date {
+  const target = (WEEKDAYS.indexOf(weekday) + 1) % 7;
+  if (position === -1) {
+    const last = lastDayOfMonth(month);
+    return addDays(last, -((getDay(last) - target + 7) % 7));
+  }
+  const first = startOfMonth(month);
+  return addDays(first, (target - getDay(first) + 7) % 7 + (position - 1) * 7);
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  return set(day, { hours: time.getHours(), minutes: time.getMinutes(), seconds: 0, milliseconds: 0 });
+}
+
+// Expands the rule into wall-clock occurrences starting at `start`, at most `limit` of them
+export function expandOccurrences(rule: Recurrence, start: Date, limit: number): Date[] {
+  if (rule.frequency === 'none') return [start];
+
+  const max = Math.min(limit, rule.endType === 'count' ? rule.count : MAX_OCCURRENCES);
+  const until = rule.endType === 'until' && rule.until ? endOfDay(rule.until) : undefined;
+  // RFC 5545 counts DTSTART as the first occurrence even when it does not match BYDAY,
+  // so the first post is always listed and only later matches are added
+  const occurrences: Date[] = [start];
+
+  // Returns false once the candidate runs past the end date so the outer loop can stop
+  const accept = (candidate: Date) => {
+    if (until && candidate > until) return false;
+    if (candidate > start && occurrences.length < max) {
+      occurrences.push(candidate);
+    }
+    return true;
+  };
+
+  for (let period = 0; occurrences.length < max && period < MAX_OCCURRENCES; period++) {
+    let keepGoing = true;
+    if (rule.frequency === 'daily') {
+      keepGoing = accept(addDays(start, period * rule.interval));
+    } else if (rule.frequency === 'weekly') {
+      const week = addWeeks(startOfWeek(start, { weekStartsOn: 1 }), period * rule.interval);
+      for (const day of WEEKDAYS) {
+        if (rule.weekdays.includes(day) && !accept(withTimeOf(addDays(week, WEEKDAYS.indexOf(day)), start))) {
+          keepGoing = false;
+          break;
+        }
+      }
+    } else {
+      const month = addMonths(startOfMonth(start), period * rule.interval);
+      keepGoing = accept(withTimeOf(nthWeekdayOfMonth(month, rule.monthlyWeekday, rule.monthlyPosition), start));
+    }
+    if (!keepGoing) break;
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,96 @@
+import { addHours, startOfHour } from 'date-fns';
+
+import type { MediaItem } from '@/lib/media';
+import { formatFileSize } from '@/lib/media-validation';
+import { DEFAULT_RECURRENCE } from '@/lib/recurrence';
+import { PostFields, buildPostFields, encodePayload } from '@/lib/webhook-payload';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, currentTimestamp } from '@/lib/webhook-signature';
+import { WebhookProfileInput, getProfileHeaders } from '@/lib/webhook-profiles';
+import { getBrowserTimeZone, utcToZonedWallTime } from '@/lib/timezones';
+
+// Long data URIs would drown out everything else in a preview
+const MAX_PREVIEW_VALUE_LENGTH = 80;
+
+// Built like a real submission, so a flow set up against the preview or a test also handles real posts.
+// It is scheduled for the coming hour, so receivers that reject past schedules accept it too.
+export function createSamplePostFields(now: Date = new Date()): PostFields {
+  const timezone = getBrowserTimeZone();
+  return buildPostFields({
+    postTitle: 'Spring launch teaser',
+    caption: 'Something new is blooming. Stay tuned 🌷',
+    hashtags: '#SpringLaunch #ComingSoon',
+    platforms: ['instagram', 'linkedin'],
+    variants: {
+      linkedin: { override: true, caption: 'We have something new to share next week.', hashtags: '#SpringLaunch' },
+    },
+    scheduledDate: startOfHour(addHours(utcToZonedWallTime(now, timezone), 1)),
+    timezone,
+    recurrence: DEFAULT_RECURRENCE,
+  }, {
+    postId: '00000000-0000-4000-8000-000000000000',
+    idempotencyKey: '11111111-1111-4111-8111-111111111111',
+  });
+}
+
+export function createSampleMedia(): MediaItem[] {
+  const file = new File([new Uint8Array([0xff, 0xd8, 0xff, 0xe0])], 'teaser.jpg', { type: 'image/jpeg' });
+  return [{
+    id: 'sample',
+    kind: 'image',
+    original: file,
+    file,
+    previewUrl: '',
+    status: 'ready',
+    crops: {},
+    altText: 'Tulips in soft morning light',
+  }];
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_PREVIEW_VALUE_LENGTH ? `${value.slice(0, MAX_PREVIEW_VALUE_LENGTH)}…` : value;
+}
+
+// Readable rendering of a request body: pretty JSON, or one line per multipart field
+export function formatRequestBody(body: FormData | string): string {
+  if (typeof body !== 'string') {
+    return Array.from(body.entries())
+      .map(([key, value]) => (typeof value === 'string'
+        ? `${key}: ${truncate(value)}`
+        : `${key}: <file ${value.name}, ${value.type || 'unknown type'}, ${formatFileSize(value.size)}>`))
+      .join('\n');
+  }
+  try {
+    return JSON.stringify(JSON.parse(body), (_key, value) => (typeof value === 'string' ? truncate(value) : value), 2);
+  } catch {
+    return body;
+  }
+}
+
+export interface RequestPreview {
+  method: string;
+  url: string;
+  headers: [string, string][];
+  body: string;
+}
+
+// Renders what this webhook would receive for a sample post, without sending anything
+export async function previewWebhookRequest(profile: WebhookProfileInput): Promise<RequestPreview> {
+  const payload = await encodePayload(profile.payloadFormat, createSamplePostFields(), createSampleMedia(), {
+    mapping: profile.mapping,
+    uploadMedia: async (file) => `https://media.example.com/uploads/${file.name}`,
+  });
+  const headers: Record<string, string> = { ...getProfileHeaders(profile), ...payload.headers };
+  if (typeof payload.body !== 'string') {
+    headers['Content-Type'] = 'multipart/form-data; boundary=…';
+  }
+  if (profile.secret) {
+    headers[SIGNATURE_HEADER] = 'sha256=…';
+    headers[TIMESTAMP_HEADER] = String(currentTimestamp());
+  }
+  return {
+    method: 'POST',
+    url: profile.url,
+    headers: Object.entries(headers),
+    body: formatRequestBody(payload.body),
+  };
+}
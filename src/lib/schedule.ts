@@ -0,0 +1,51 @@
+import { set } from 'date-fns';
+
+export type MinuteStep = 5 | 15;
+
+export const MINUTE_STEPS: MinuteStep[] = [5, 15];
+
+// Hour of day used when a day is picked before any time has been chosen
+export const DEFAULT_HOUR = 9;
+
+// Whether the locale formats times with an AM/PM suffix (h12/h11) rather than 24h
+export function uses12HourClock(locale?: string): boolean {
+  return new Intl.DateTimeFormat(locale, { hour: 'numeric' })
+    .formatToParts(new Date())
+    .some((part) => part.type === 'dayPeriod');
+}
+
+export function getMinuteOptions(step: MinuteStep): number[] {
+  return Array.from({ length: 60 / step }, (_, i) => i * step);
+}
+
+export function getHourOptions(twelveHour: boolean): number[] {
+  return twelveHour
+    ? [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+    : Array.from({ length: 24 }, (_, i) => i);
+}
+
+// Snaps minutes down onto the step grid so the select always has a matching option
+export function snapMinutes(minutes: number, step: MinuteStep): number {
+  return Math.floor(minutes / step) * step;
+}
+
+export function to24Hour(hour: number, meridiem: 'AM' | 'PM'): number {
+  const base = hour % 12;
+  return meridiem === 'PM' ? base + 12 : base;
+}
+
+export function to12Hour(hours: number): { hour: number; meridiem: 'AM' | 'PM' } {
+  return {
+    hour: hours % 12 === 0 ? 12 : hours % 12,
+    meridiem: hours >= 12 ? 'PM' : 'AM',
+  };
+}
+
+// Combines the calendar day of `day` with a wall-clock time in the browser zone
+export function combineDateAndTime(day: Date, hours: number, minutes: number): Date {
+  return set(day, { hours, minutes, seconds: 0, milliseconds: 0 });
+}
+
+export function isInFuture(date: Date, now: Date = new Date()): boolean {
+  return date.getTime() > now.getTime();
+}
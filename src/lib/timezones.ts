@@ -0,0 +1,104 @@
+import { format } from 'date-fns';
+
+// Used when the runtime cannot enumerate IANA zones (Intl.supportedValuesOf is ES2022)
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function getSupportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : FALLBACK_TIME_ZONES;
+  const browserZone = getBrowserTimeZone();
+  return zones.includes(browserZone) ? zones : [browserZone, ...zones];
+}
+
+// Minutes the zone is ahead of UTC at the given instant (negative west of Greenwich)
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+// Reads the local fields of `wallClock` as a time in `timeZone` and returns that instant
+export function zonedWallTimeToDate(wallClock: Date, timeZone: string): Date {
+  const asUtc = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds()
+  );
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone) * 60000;
+  // A second pass settles wall times that sit next to a DST transition
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(asUtc - offset * 60000);
+}
+
+// The inverse of zonedWallTimeToDate: a Date whose local fields show `date` as seen in `timeZone`
+export function utcToZonedWallTime(date: Date, timeZone: string): Date {
+  const shifted = new Date(date.getTime() + getTimeZoneOffset(date, timeZone) * 60000);
+  return new Date(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth(),
+    shifted.getUTCDate(),
+    shifted.getUTCHours(),
+    shifted.getUTCMinutes(),
+    shifted.getUTCSeconds()
+  );
+}
+
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const minutes = String(absolute % 60).padStart(2, '0');
+  return `${sign}${hours}:${minutes}`;
+}
+
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(date);
+}
+
+// Wall-clock time without an offset, e.g. 2024-05-01T09:30:00
+export function formatWallClock(wallClock: Date): string {
+  return format(wallClock, "yyyy-MM-dd'T'HH:mm:ss");
+}
+
+export function getTimeZoneLabel(timeZone: string, date: Date = new Date()): string {
+  return `${timeZone.replace(/_/g, ' ')} (UTC${formatUtcOffset(getTimeZoneOffset(date, timeZone))})`;
+}
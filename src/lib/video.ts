@@ -0,0 +1,116 @@
+import { formatFileSize } from '@/lib/media-validation';
+
+export interface VideoMetadata {
+  duration: number;
+  width: number;
+  height: number;
+  codecs: string[];
+}
+
+export interface VideoLimits {
+  minDuration: number;
+  maxDuration: number;
+  maxSize: number;
+}
+
+// Sample entry fourccs from the MP4/MOV `stsd` box, mapped to readable names
+const CODEC_FOURCCS: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'HEVC',
+  hev1: 'HEVC',
+  av01: 'AV1',
+  vp09: 'VP9',
+  'mp4a': 'AAC',
+  'ac-3': 'AC-3',
+  Opus: 'Opus',
+  apch: 'ProRes',
+  apcn: 'ProRes',
+};
+
+// The moov box sits at either end of the file depending on the encoder, so scan both
+const CODEC_SCAN_BYTES = 2 * 1024 * 1024;
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
+export async function detectVideoCodecs(file: File): Promise<string[]> {
+  const head = file.slice(0, CODEC_SCAN_BYTES);
+  const tail = file.size > CODEC_SCAN_BYTES ? file.slice(-CODEC_SCAN_BYTES) : new Blob();
+  const bytes = new Uint8Array(await new Blob([head, tail]).arrayBuffer());
+  const text = new TextDecoder('latin1').decode(bytes);
+  const found = new Set<string>();
+  Object.entries(CODEC_FOURCCS).forEach(([fourcc, name]) => {
+    if (text.includes(fourcc)) found.add(name);
+  });
+  return Array.from(found);
+}
+
+function loadVideo(src: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('This browser cannot read the video'));
+    video.src = src;
+  });
+}
+
+export async function readVideoMetadata(file: File): Promise<VideoMetadata> {
+  const url = URL.createObjectURL(file);
+  try {
+    const [video, codecs] = await Promise.all([loadVideo(url), detectVideoCodecs(file)]);
+    return { duration: video.duration, width: video.videoWidth, height: video.videoHeight, codecs };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Seeks to `time` and grabs that frame as a JPEG to use as the post's cover image
+export async function captureVideoFrame(file: File, time: number): Promise<File> {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url);
+    await new Promise<void>((resolve, reject) => {
+      video.onseeked = () => resolve();
+      video.onerror = () => reject(new Error('Could not seek the video'));
+      video.currentTime = Math.min(Math.max(time, 0), video.duration || 0);
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context is unavailable');
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((result) => (result ? resolve(result) : reject(new Error('Canvas encoding failed'))), 'image/jpeg', 0.9);
+    });
+    return new File([blob], file.name.replace(/\.\w+$/, '') + '-cover.jpg', { type: 'image/jpeg' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function checkVideoLimits(metadata: VideoMetadata, size: number, limits: VideoLimits): string[] {
+  const issues: string[] = [];
+  if (metadata.duration < limits.minDuration) {
+    issues.push(`shorter than the ${formatDuration(limits.minDuration)} minimum`);
+  }
+  if (metadata.duration > limits.maxDuration) {
+    issues.push(`longer than the ${formatDuration(limits.maxDuration)} maximum`);
+  }
+  if (size > limits.maxSize) {
+    issues.push(`larger than the ${formatFileSize(limits.maxSize)} limit`);
+  }
+  return issues;
+}
@@ -0,0 +1,402 @@
+import { z } from 'zod';
+
+import { CaptionVariants, resolveCaptions } from '@/lib/caption-variants';
+import { loggedFetch } from '@/lib/delivery-log';
+import { joinHashtags, parseHashtags } from '@/lib/hashtags';
+import { IDEMPOTENCY_HEADER } from '@/lib/idempotency';
+import { cropImage } from '@/lib/image-crop';
+import type { MediaItem } from '@/lib/media';
+import { PayloadMapping, STANDARD_MAPPING, buildMappedObject, resolveMapping } from '@/lib/payload-mapping';
+import { getPlatforms } from '@/lib/platforms';
+import { PAYLOAD_OCCURRENCES, Recurrence, buildRRule, expandOccurrences } from '@/lib/recurrence';
+import { formatUtcOffset, formatWallClock, getTimeZoneOffset, zonedWallTimeToDate } from '@/lib/timezones';
+
+// Bumped whenever a field is renamed or removed; adding optional fields keeps the version
+export const PAYLOAD_VERSION = 1 as const;
+
+export const PAYLOAD_FORMATS = ['multipart', 'json-base64', 'json-urls'] as const;
+export type PayloadFormat = (typeof PAYLOAD_FORMATS)[number];
+
+export const PAYLOAD_FORMAT_OPTIONS: Record<PayloadFormat, { label: string; description: string }> = {
+  multipart: {
+    label: 'Multipart form data',
+    description: 'Files as form parts, structured fields as JSON strings. Works with n8n out of the box.',
+  },
+  'json-base64': {
+    label: 'JSON with embedded media',
+    description: 'One JSON body with each file as a base64 data URI. Simplest for Zapier and Make, but large.',
+  },
+  'json-urls': {
+    label: 'JSON with media URLs',
+    description: 'Files are uploaded to your media endpoint first and the JSON body links to them.',
+  },
+};
+
+const variantSchema = z.object({
+  caption: z.string(),
+  hashtags: z.string(),
+  hashtagList: z.array(z.string()),
+  overridden: z.boolean(),
+});
+
+const cropBoxSchema = z.object({
+  aspect: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+const videoMetadataSchema = z.object({
+  duration: z.number(),
+  width: z.number(),
+  height: z.number(),
+  codecs: z.array(z.string()),
+});
+
+// Everything about the post itself; each format adds the media in its own way
+export const postFieldsSchema = z.object({
+  postId: z.string(),
+  // Stable for the draft, so a receiver can drop repeats of the same post; also sent as a header
+  idempotencyKey: z.string(),
+  postTitle: z.string(),
+  caption: z.string(),
+  hashtags: z.string(),
+  hashtagList: z.array(z.string()),
+  platforms: z.array(z.string()),
+  variants: z.record(variantSchema),
+  scheduledDate: z.string().datetime(),
+  timezone: z.string(),
+  scheduledLocalTime: z.string(),
+  utcOffset: z.string(),
+  recurrenceRule: z.string().optional(),
+  recurrenceOccurrences: z.array(z.string().datetime()).optional(),
+  // Only present on sample posts sent by the "Test webhook" action
+  test: z.boolean().optional(),
+});
+
+export type PostFields = z.infer<typeof postFieldsSchema>;
+
+// What the composer holds for a post, before anything is derived from it
+export interface PostFieldValues {
+  postTitle: string;
+  caption: string;
+  hashtags?: string;
+  platforms: string[];
+  variants: CaptionVariants;
+  // Wall-clock time in `timezone`, as the date picker holds it
+  scheduledDate: Date;
+  timezone: string;
+  recurrence: Recurrence;
+}
+
+// Real posts and the sample used by previews and tests both go through here, so they cannot drift apart
+export function buildPostFields(
+  values: PostFieldValues,
+  { postId, idempotencyKey }: Pick<PostFields, 'postId' | 'idempotencyKey'>
+): PostFields {
+  const platformIds = getPlatforms(values.platforms).map(({ id }) => id);
+  const variants = resolveCaptions({ caption: values.caption, hashtags: values.hashtags }, values.variants, platformIds);
+  const hashtagList = parseHashtags(values.hashtags || '');
+  const scheduledAt = zonedWallTimeToDate(values.scheduledDate, values.timezone);
+  const recurrenceRule = buildRRule(values.recurrence, values.timezone);
+  return {
+    postId,
+    idempotencyKey,
+    postTitle: values.postTitle,
+    caption: values.caption,
+    hashtags: joinHashtags(hashtagList),
+    hashtagList,
+    platforms: platformIds,
+    variants: Object.fromEntries(Object.entries(variants).map(([platformId, variant]) => {
+      const variantHashtags = parseHashtags(variant.hashtags);
+      return [platformId, { ...variant, hashtags: joinHashtags(variantHashtags), hashtagList: variantHashtags }];
+    })),
+    scheduledDate: scheduledAt.toISOString(),
+    timezone: values.timezone,
+    scheduledLocalTime: formatWallClock(values.scheduledDate),
+    utcOffset: formatUtcOffset(getTimeZoneOffset(scheduledAt, values.timezone)),
+    recurrenceRule,
+    recurrenceOccurrences: recurrenceRule
+      ? expandOccurrences(values.recurrence, values.scheduledDate, PAYLOAD_OCCURRENCES)
+        .map((occurrence) => zonedWallTimeToDate(occurrence, values.timezone).toISOString())
+      : undefined,
+  };
+}
+
+// v1 multipart. Structured fields are JSON strings; media arrives as `image_<i>` / `video_<i>`,
+// `cover_<i>`, `alt_<i>` and `crop_<platform>_<i>` parts, which the catchall covers.
+export const multipartPayloadV1Schema = z.object({
+  payloadVersion: z.literal(String(PAYLOAD_VERSION)),
+  postId: z.string(),
+  idempotencyKey: z.string(),
+  postTitle: z.string(),
+  caption: z.string(),
+  hashtags: z.string(),
+  hashtagList: z.string(),
+  platforms: z.string(),
+  variants: z.string(),
+  scheduledDate: z.string().datetime(),
+  timezone: z.string(),
+  scheduledLocalTime: z.string(),
+  utcOffset: z.string(),
+  recurrenceRule: z.string().optional(),
+  recurrenceOccurrences: z.string().optional(),
+  test: z.literal('true').optional(),
+  videoMetadata: z.string().optional(),
+  mediaOrder: z.string(),
+  crops: z.string().optional(),
+}).catchall(z.union([z.string(), z.instanceof(Blob)]));
+
+const mediaFileFields = {
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number().int(),
+};
+
+export const base64MediaFileSchema = z.object({ ...mediaFileFields, data: z.string().startsWith('data:') });
+export const urlMediaFileSchema = z.object({ ...mediaFileFields, url: z.string().url() });
+
+function jsonMediaSchema<FileSchema extends z.ZodTypeAny>(file: FileSchema) {
+  return z.object({
+    index: z.number().int(),
+    kind: z.enum(['image', 'video']),
+    altText: z.string(),
+    file,
+    cover: z.object({ time: z.number(), file }).optional(),
+    video: videoMetadataSchema.optional(),
+    // Keyed by platform id
+    crops: z.record(cropBoxSchema.extend({ file })),
+  });
+}
+
+export const jsonBase64PayloadV1Schema = postFieldsSchema.extend({
+  payloadVersion: z.literal(PAYLOAD_VERSION),
+  payloadFormat: z.literal('json-base64'),
+  media: z.array(jsonMediaSchema(base64MediaFileSchema)),
+});
+
+export const jsonUrlPayloadV1Schema = postFieldsSchema.extend({
+  payloadVersion: z.literal(PAYLOAD_VERSION),
+  payloadFormat: z.literal('json-urls'),
+  media: z.array(jsonMediaSchema(urlMediaFileSchema)),
+});
+
+export type JsonBase64PayloadV1 = z.infer<typeof jsonBase64PayloadV1Schema>;
+export type JsonUrlPayloadV1 = z.infer<typeof jsonUrlPayloadV1Schema>;
+
+// What a media endpoint must answer for an uploaded file
+export const mediaUploadResponseSchema = z.object({ url: z.string().url() });
+
+export interface EncodedPayload {
+  body: FormData | string;
+  headers: Record<string, string>;
+}
+
+export interface EncodePayloadOptions {
+  // Renames and reshapes the post fields; media parts of multipart payloads keep their names
+  mapping?: PayloadMapping;
+  // Required for `json-urls`; returns the public URL of the uploaded file
+  uploadMedia?: (file: File) => Promise<string>;
+}
+
+// A follow-up about a post that already went out, such as a reschedule
+export interface PostEvent {
+  event: string;
+  fields: Partial<PostFields>;
+  // Values that are not post fields, such as the previous time of a reschedule
+  details?: Record<string, unknown>;
+}
+
+interface RenderedCrop {
+  index: number;
+  platformId: string;
+  box: z.infer<typeof cropBoxSchema>;
+  file: File;
+}
+
+async function renderCrops(media: MediaItem[], platformIds: string[]): Promise<RenderedCrop[]> {
+  const crops: RenderedCrop[] = [];
+  for (const [index, item] of media.entries()) {
+    for (const platformId of platformIds) {
+      const crop = item.crops[platformId];
+      if (!crop) continue;
+      crops.push({
+        index,
+        platformId,
+        box: { aspect: crop.aspect, x: crop.x, y: crop.y, width: crop.width, height: crop.height },
+        file: await cropImage(item.file, crop),
+      });
+    }
+  }
+  return crops;
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Thrown when the media endpoint answered but the upload failed; network failures reject without a status
+export type MediaUploadError = Error & { httpStatus: number };
+
+function uploadError(message: string, httpStatus: number): MediaUploadError {
+  return Object.assign(new Error(message), { httpStatus });
+}
+
+export async function uploadMediaFile(uploadUrl: string, file: File, headers: Record<string, string> = {}): Promise<string> {
+  const body = new FormData();
+  body.append('file', file, file.name);
+  const response = await loggedFetch('media-upload', uploadUrl, { method: 'POST', headers, body }, file.name);
+  if (!response.ok) {
+    throw uploadError(`Media upload for ${file.name} responded with ${response.status}`, response.status);
+  }
+  const result = mediaUploadResponseSchema.safeParse(await response.json().catch(() => null));
+  if (!result.success) {
+    throw uploadError(`Media upload for ${file.name} did not return a file URL`, response.status);
+  }
+  return result.data.url;
+}
+
+function encodeMultipart(
+  fields: PostFields,
+  media: MediaItem[],
+  crops: RenderedCrop[],
+  mapping: PayloadMapping
+): FormData {
+  const formData = new FormData();
+  resolveMapping(mapping, { payloadVersion: PAYLOAD_VERSION, ...fields }).forEach(([key, value]) => {
+    formData.append(key, typeof value === 'string' ? value : JSON.stringify(value));
+  });
+
+  // Indexes are shared so the combined order is preserved
+  const videoMetadata: Record<number, z.infer<typeof videoMetadataSchema> & { coverTime?: number }> = {};
+  media.forEach((item, index) => {
+    if (item.kind === 'video') {
+      formData.append(`video_${index}`, item.file);
+      if (item.cover) formData.append(`cover_${index}`, item.cover.file);
+      if (item.video) videoMetadata[index] = { ...item.video, coverTime: item.cover?.time };
+    } else {
+      formData.append(`image_${index}`, item.file);
+    }
+  });
+  if (Object.keys(videoMetadata).length > 0) {
+    formData.append('videoMetadata', JSON.stringify(videoMetadata));
+  }
+  media.forEach((item, index) => {
+    formData.append(`alt_${index}`, item.altText.trim());
+  });
+  formData.append('mediaOrder', JSON.stringify(
+    media.map((item, index) => ({ index, field: `${item.kind}_${index}`, name: item.original.name }))
+  ));
+
+  // Per-platform crops go out as separate files plus a manifest keyed by platform id
+  const cropManifest: Record<string, ({ index: number } & RenderedCrop['box'])[]> = {};
+  crops.forEach(({ index, platformId, box, file }) => {
+    formData.append(`crop_${platformId}_${index}`, file);
+    cropManifest[platformId] = [...(cropManifest[platformId] ?? []), { index, ...box }];
+  });
+  if (crops.length > 0) {
+    formData.append('crops', JSON.stringify(cropManifest));
+  }
+  return formData;
+}
+
+type EncodedFile<Encoded> = Encoded & { name: string; mimeType: string; size: number };
+
+interface JsonMediaItem<Encoded> {
+  index: number;
+  kind: MediaItem['kind'];
+  altText: string;
+  file: EncodedFile<Encoded>;
+  cover?: { time: number; file: EncodedFile<Encoded> };
+  video?: z.infer<typeof videoMetadataSchema>;
+  crops: Record<string, RenderedCrop['box'] & { file: EncodedFile<Encoded> }>;
+}
+
+async function encodeJsonMedia<Encoded extends object>(
+  media: MediaItem[],
+  crops: RenderedCrop[],
+  encodeFile: (file: File) => Promise<Encoded>
+): Promise<JsonMediaItem<Encoded>[]> {
+  const describe = async (file: File): Promise<EncodedFile<Encoded>> => ({
+    name: file.name,
+    mimeType: file.type,
+    size: file.size,
+    ...(await encodeFile(file)),
+  });
+
+  const items: JsonMediaItem<Encoded>[] = [];
+  for (const [index, item] of media.entries()) {
+    const itemCrops: JsonMediaItem<Encoded>['crops'] = {};
+    for (const crop of crops.filter((entry) => entry.index === index)) {
+      itemCrops[crop.platformId] = { ...crop.box, file: await describe(crop.file) };
+    }
+    items.push({
+      index,
+      kind: item.kind,
+      altText: item.altText.trim(),
+      file: await describe(item.file),
+      cover: item.cover ? { time: item.cover.time, file: await describe(item.cover.file) } : undefined,
+      video: item.video,
+      crops: itemCrops,
+    });
+  }
+  return items;
+}
+
+export async function encodePayload(
+  format: PayloadFormat,
+  fields: PostFields,
+  media: MediaItem[],
+  { mapping = STANDARD_MAPPING, uploadMedia }: EncodePayloadOptions = {}
+): Promise<EncodedPayload> {
+  const crops = await renderCrops(media, fields.platforms);
+  // The header survives any mapping, so receivers can dedupe without knowing the payload shape
+  const idempotency = { [IDEMPOTENCY_HEADER]: fields.idempotencyKey };
+
+  if (format === 'multipart') {
+    // fetch sets the multipart Content-Type with its boundary
+    return { body: encodeMultipart(fields, media, crops, mapping), headers: idempotency };
+  }
+
+  let payload: JsonBase64PayloadV1 | JsonUrlPayloadV1;
+  if (format === 'json-base64') {
+    const encoded = await encodeJsonMedia(media, crops, async (file) => ({ data: await readAsDataUrl(file) }));
+    payload = { payloadVersion: PAYLOAD_VERSION, payloadFormat: format, ...fields, media: encoded };
+  } else {
+    const encoded = await encodeJsonMedia(media, crops, async (file) => {
+      if (!uploadMedia) throw new Error('This webhook needs a media upload URL to send media links');
+      return { url: await uploadMedia(file) };
+    });
+    payload = { payloadVersion: PAYLOAD_VERSION, payloadFormat: format, ...fields, media: encoded };
+  }
+  const body = mapping.preset === 'standard' ? payload : buildMappedObject(resolveMapping(mapping, payload));
+  return { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json', ...idempotency } };
+}
+
+// Events carry no media. The event name and its details survive any mapping, so a flow can tell
+// an event from a new post and route it without knowing the mapped shape.
+export function encodeEventPayload(
+  format: PayloadFormat,
+  { event, fields, details = {} }: PostEvent,
+  { mapping = STANDARD_MAPPING }: Pick<EncodePayloadOptions, 'mapping'> = {}
+): EncodedPayload {
+  const entries: [string, unknown][] = [
+    ['event', event],
+    ...resolveMapping(mapping, { payloadVersion: PAYLOAD_VERSION, ...fields }),
+    ...Object.entries(details),
+  ];
+  if (format === 'multipart') {
+    const formData = new FormData();
+    entries.forEach(([key, value]) => {
+      formData.append(key, typeof value === 'string' ? value : JSON.stringify(value));
+    });
+    return { body: formData, headers: {} };
+  }
+  return { body: JSON.stringify(buildMappedObject(entries)), headers: { 'Content-Type': 'application/json' } };
+}
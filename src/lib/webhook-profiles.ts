@@ -0,0 +1,143 @@
+import { z } from 'zod';
+
+import { PAYLOAD_FORMATS } from '@/lib/webhook-payload';
+import { STANDARD_MAPPING, payloadMappingSchema } from '@/lib/payload-mapping';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhookBody } from '@/lib/webhook-signature';
+
+const PROFILES_KEY = 'webhook-profiles';
+const LAST_USED_KEY = 'webhook-profiles:last-used';
+
+// Header names are HTTP tokens; fetch rejects anything else
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+export const webhookHeaderSchema = z.object({
+  name: z.string().trim().min(1, 'Header name is required').regex(HEADER_NAME, 'Not a valid header name'),
+  value: z.string(),
+});
+
+const webhookProfileFields = z.object({
+  name: z.string().trim().min(1, 'Give this webhook a name').max(60, 'Keep the name under 60 characters'),
+  url: z.string().url('Please enter a valid webhook URL'),
+  description: z.string().max(200, 'Keep the description under 200 characters').optional(),
+  headers: z.array(webhookHeaderSchema),
+  // Shared with the receiver to sign each request; empty means requests go out unsigned
+  secret: z.string().optional(),
+  isDefault: z.boolean(),
+  payloadFormat: z.enum(PAYLOAD_FORMATS).default('multipart'),
+  mediaUploadUrl: z.union([z.literal(''), z.string().url('Please enter a valid upload URL')]).optional(),
+  mapping: payloadMappingSchema.default(STANDARD_MAPPING),
+});
+
+export const webhookProfileSchema = webhookProfileFields.superRefine((profile, ctx) => {
+  if (profile.payloadFormat === 'json-urls' && !profile.mediaUploadUrl) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['mediaUploadUrl'],
+      message: 'Media links need an endpoint to upload files to',
+    });
+  }
+});
+
+export type WebhookProfileInput = z.infer<typeof webhookProfileSchema>;
+
+export interface WebhookProfile extends WebhookProfileInput {
+  id: string;
+}
+
+export const EMPTY_WEBHOOK_PROFILE: WebhookProfileInput = {
+  name: '',
+  url: '',
+  description: '',
+  headers: [],
+  secret: '',
+  isDefault: false,
+  payloadFormat: 'multipart',
+  mediaUploadUrl: '',
+  mapping: STANDARD_MAPPING,
+};
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function loadWebhookProfiles(): WebhookProfile[] {
+  const stored = readJson<unknown[]>(PROFILES_KEY, []);
+  // Drop anything that no longer matches the schema rather than failing the whole list
+  return stored.flatMap((item) => {
+    const parsed = webhookProfileFields.extend({ id: z.string() }).safeParse(item);
+    return parsed.success ? [parsed.data as WebhookProfile] : [];
+  });
+}
+
+export function saveWebhookProfiles(profiles: WebhookProfile[]): void {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function getLastUsedProfileId(): string | null {
+  return localStorage.getItem(LAST_USED_KEY);
+}
+
+export function setLastUsedProfileId(id: string): void {
+  localStorage.setItem(LAST_USED_KEY, id);
+}
+
+// Last used wins over the default, so switching endpoints sticks until changed again
+export function getInitialProfileId(profiles: WebhookProfile[]): string {
+  const lastUsed = getLastUsedProfileId();
+  return (
+    profiles.find(({ id }) => id === lastUsed)?.id ??
+    profiles.find(({ isDefault }) => isDefault)?.id ??
+    profiles[0]?.id ??
+    ''
+  );
+}
+
+// At most one profile is the default, so marking one clears the rest
+export function upsertWebhookProfile(profiles: WebhookProfile[], profile: WebhookProfile): WebhookProfile[] {
+  const others = profiles.map((existing) => (profile.isDefault ? { ...existing, isDefault: false } : existing));
+  return others.some(({ id }) => id === profile.id)
+    ? others.map((existing) => (existing.id === profile.id ? profile : existing))
+    : [...others, profile];
+}
+
+export function getProfileHeaders(profile?: Pick<WebhookProfileInput, 'headers'>): Record<string, string> {
+  return Object.fromEntries((profile?.headers ?? []).map(({ name, value }) => [name.trim(), value]));
+}
+
+// Signing needs the exact bytes that go over the wire, so bodies are serialized up front.
+// For FormData that also fixes the multipart boundary in the Content-Type header.
+export async function buildWebhookRequest(
+  profile: WebhookProfile | undefined,
+  body: FormData | Blob | string,
+  headers: Record<string, string> = {}
+): Promise<RequestInit> {
+  const init: RequestInit = { method: 'POST', headers: { ...getProfileHeaders(profile), ...headers }, body };
+  if (!profile?.secret) return init;
+
+  const request = new Request(profile.url, init);
+  const bytes = await request.arrayBuffer();
+  const { signature, timestamp } = await signWebhookBody(bytes, profile.secret);
+  return {
+    method: 'POST',
+    headers: {
+      ...Object.fromEntries(request.headers.entries()),
+      [SIGNATURE_HEADER]: signature,
+      [TIMESTAMP_HEADER]: String(timestamp),
+    },
+    body: bytes,
+  };
+}
+
+export function describeWebhookUrl(url: string): string {
+  try {
+    const { host, pathname } = new URL(url);
+    return `${host}${pathname === '/' ? '' : pathname}`;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,101 @@
+// Shared by the composer and by receiving endpoints, so this module only relies on
+// Web Crypto and TextEncoder (browsers, Node 19+, Deno, Workers) and imports nothing.
+// It also type-checks under `strict` and only uses erasable syntax, so Node 22.18+ can run it as is.
+//
+// Receiving side, e.g. in an Express handler with `express.raw({ type: '*/*' })`:
+//
+//   const result = await verifyWebhookSignature({
+//     body: req.body,
+//     secret: process.env.WEBHOOK_SECRET,
+//     signature: req.get('X-Signature'),
+//     timestamp: req.get('X-Timestamp'),
+//   });
+//   if (!result.valid) return res.status(401).send(result.reason);
+
+export const SIGNATURE_HEADER = 'X-Signature';
+export const TIMESTAMP_HEADER = 'X-Timestamp';
+export const SIGNATURE_PREFIX = 'sha256=';
+
+// How far a timestamp may drift from the receiver's clock before the request counts as a replay
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export type SignableBody = string | ArrayBuffer | Uint8Array;
+
+export type SignatureFailure = 'missing' | 'malformed' | 'expired' | 'mismatch';
+
+export type SignatureVerification = { valid: true } | { valid: false; reason: SignatureFailure };
+
+export interface VerifySignatureOptions {
+  body: SignableBody;
+  secret: string;
+  signature: string | null | undefined;
+  timestamp: string | null | undefined;
+  toleranceSeconds?: number;
+  // Seconds since the epoch; only worth overriding in tests
+  now?: number;
+}
+
+const encoder = new TextEncoder();
+
+function toBytes(body: SignableBody): Uint8Array {
+  if (typeof body === 'string') return encoder.encode(body);
+  return body instanceof Uint8Array ? body : new Uint8Array(body);
+}
+
+// The timestamp is part of the signed bytes, so it cannot be swapped to get past the replay window
+function signedMessage(timestamp: number, body: SignableBody): Uint8Array {
+  const prefix = encoder.encode(`${timestamp}.`);
+  const bytes = toBytes(body);
+  const message = new Uint8Array(prefix.length + bytes.length);
+  message.set(prefix);
+  message.set(bytes, prefix.length);
+  return message;
+}
+
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array | null {
+  const pairs = /^(?:[0-9a-f]{2})+$/i.test(hex) ? hex.match(/../g) : null;
+  return pairs && new Uint8Array(pairs.map((pair) => parseInt(pair, 16)));
+}
+
+export function currentTimestamp(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export async function signWebhookBody(
+  body: SignableBody,
+  secret: string,
+  timestamp: number = currentTimestamp()
+): Promise<{ signature: string; timestamp: number }> {
+  const key = await importKey(secret, 'sign');
+  const digest = await crypto.subtle.sign('HMAC', key, signedMessage(timestamp, body));
+  return { signature: `${SIGNATURE_PREFIX}${toHex(digest)}`, timestamp };
+}
+
+export async function verifyWebhookSignature({
+  body,
+  secret,
+  signature,
+  timestamp,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+  now = currentTimestamp(),
+}: VerifySignatureOptions): Promise<SignatureVerification> {
+  if (!signature || !timestamp) return { valid: false, reason: 'missing' };
+
+  const sentAt = Number(timestamp);
+  const digest = signature.startsWith(SIGNATURE_PREFIX) ? fromHex(signature.slice(SIGNATURE_PREFIX.length)) : null;
+  if (!Number.isInteger(sentAt) || !digest) return { valid: false, reason: 'malformed' };
+  if (Math.abs(now - sentAt) > toleranceSeconds) return { valid: false, reason: 'expired' };
+
+  // subtle.verify compares in constant time, unlike comparing hex strings
+  const key = await importKey(secret, 'verify');
+  const matches = await crypto.subtle.verify('HMAC', key, digest, signedMessage(sentAt, body));
+  return matches ? { valid: true } : { valid: false, reason: 'mismatch' };
+}
@@ -0,0 +1,88 @@
+import { loggedFetch } from '@/lib/delivery-log';
+import { MAX_RESPONSE_BODY_LENGTH } from '@/lib/posts';
+import { createSampleMedia, createSamplePostFields, formatRequestBody } from '@/lib/request-preview';
+import { encodePayload } from '@/lib/webhook-payload';
+import { WebhookProfile, buildWebhookRequest } from '@/lib/webhook-profiles';
+
+export type WebhookTestFailure = 'cors' | 'mixed-content' | 'unreachable';
+
+export interface WebhookTestResult {
+  request: {
+    method: string;
+    url: string;
+    headers: [string, string][];
+    body: string;
+  };
+  response?: {
+    status: number;
+    statusText: string;
+    ok: boolean;
+    headers: [string, string][];
+    body: string;
+  };
+  durationMs: number;
+  failure?: WebhookTestFailure;
+  error?: string;
+}
+
+export function prettyPrintBody(body: string): string {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+// fetch reports a CORS block and a dead host the same way, so a no-cors probe tells them apart:
+// an opaque answer means the server is up and only the browser is refusing to show the response.
+async function diagnoseFetchFailure(url: string): Promise<WebhookTestFailure> {
+  if (window.location.protocol === 'https:' && url.startsWith('http:')) return 'mixed-content';
+  try {
+    await fetch(url, { method: 'HEAD', mode: 'no-cors', cache: 'no-store' });
+    return 'cors';
+  } catch {
+    return 'unreachable';
+  }
+}
+
+// Sends the sample post, flagged with `test: true`, exactly as a real submission would go out
+export async function testWebhook(profile: WebhookProfile): Promise<WebhookTestResult> {
+  // A fresh key per run, or a receiver that dedupes would swallow every test after the first
+  const fields = { ...createSamplePostFields(), idempotencyKey: crypto.randomUUID(), test: true };
+  const payload = await encodePayload(profile.payloadFormat, fields, createSampleMedia(), {
+    mapping: profile.mapping,
+    // Keeps tests from filling the media store with sample files
+    uploadMedia: async (file) => `https://media.example.com/test/${file.name}`,
+  });
+  const init = await buildWebhookRequest(profile, payload.body, payload.headers);
+  const headers = Array.from(new Headers(init.headers).entries());
+  if (typeof payload.body !== 'string' && !headers.some(([name]) => name === 'content-type')) {
+    headers.push(['content-type', 'multipart/form-data; boundary=… (set by the browser)']);
+  }
+  const request = { method: 'POST', url: profile.url, headers, body: formatRequestBody(payload.body) };
+
+  const startedAt = performance.now();
+  try {
+    const response = await loggedFetch('test', profile.url, init, profile.name);
+    const body = await response.text().catch(() => '');
+    return {
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        ok: response.ok,
+        headers: Array.from(response.headers.entries()),
+        body: body.slice(0, MAX_RESPONSE_BODY_LENGTH),
+      },
+      durationMs: Math.round(performance.now() - startedAt),
+    };
+  } catch (error) {
+    const durationMs = Math.round(performance.now() - startedAt);
+    return {
+      request,
+      durationMs,
+      failure: await diagnoseFetchFailure(profile.url),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,7 @@
+import ContentCalendar from '@/components/ContentCalendar';
+
+const Calendar = () => {
+  return <ContentCalendar />;
+};
+
+export default Calendar;
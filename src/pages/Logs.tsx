@@ -0,0 +1,7 @@
+import DeliveryLog from '@/components/DeliveryLog';
+
+const Logs = () => {
+  return <DeliveryLog />;
+};
+
+export default Logs;
@@ -0,0 +1,7 @@
+import PostHistory from '@/components/PostHistory';
+
+const Posts = () => {
+  return <PostHistory />;
+};
+
+export default Posts;
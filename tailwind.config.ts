@@ -58,10 +58,9 @@ export default {
 					DEFAULT: 'hsl(var(--card))',
 					foreground: 'hsl(var(--card-foreground))'
 				},
-				social: {
-					facebook: 'hsl(var(--facebook))',
-					instagram: 'hsl(var(--instagram))',
-					linkedin: 'hsl(var(--linkedin))'
+				platform: {
+					DEFAULT: 'hsl(var(--platform))',
+					foreground: 'hsl(var(--platform-foreground))'
 				},
 				sidebar: {
 					DEFAULT: 'hsl(var(--sidebar-background))',